@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Crop, Plus, X } from 'lucide-react';
+import { getZoomFactor, isFullFrame, type CropRect, type CropRegion } from '@/lib/cropRegion';
+
+interface CropRegionControlsProps {
+  // The main view's current zoom, which a new region is saved from
+  zoom: CropRect;
+  regions: CropRegion[];
+  // The region exports are cropped to; null exports the whole frame
+  activeId: string | null;
+  onSave: (name: string) => void;
+  onSelect: (id: string | null) => void;
+  onRemove: (id: string) => void;
+}
+
+// Named zoom rectangles; picking one zooms the main view to it and crops exports the same way
+export const CropRegionControls: React.FC<CropRegionControlsProps> = ({
+  zoom,
+  regions,
+  activeId,
+  onSave,
+  onSelect,
+  onRemove
+}) => {
+  const [name, setName] = useState('');
+  const isZoomed = !isFullFrame(zoom);
+
+  const save = () => {
+    onSave(name.trim() || `Region ${regions.length + 1}`);
+    setName('');
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium inline-flex items-center gap-2">
+          <Crop className="w-4 h-4" />
+          Crop Regions
+        </label>
+        <span className="text-xs text-muted-foreground">
+          {isZoomed ? `${getZoomFactor(zoom).toFixed(1)}× zoom` : 'Pinch the delayed view to zoom'}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && isZoomed && save()}
+          placeholder={`Region ${regions.length + 1}`}
+          className="h-8 text-sm"
+          aria-label="Crop region name"
+        />
+        <Button onClick={save} variant="outline" size="sm" className="shrink-0" disabled={!isZoomed}>
+          <Plus className="w-4 h-4 mr-1" />
+          Save Zoom
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Export crop">
+        <Button
+          onClick={() => onSelect(null)}
+          variant={activeId === null ? "secondary" : "ghost"}
+          size="sm"
+          aria-pressed={activeId === null}
+        >
+          Whole Frame
+        </Button>
+        {regions.map(region => (
+          <div key={region.id} className="inline-flex items-center">
+            <Button
+              onClick={() => onSelect(region.id)}
+              variant={activeId === region.id ? "secondary" : "ghost"}
+              size="sm"
+              className="rounded-r-none"
+              aria-pressed={activeId === region.id}
+            >
+              {region.name}
+            </Button>
+            <Button
+              onClick={() => onRemove(region.id)}
+              variant={activeId === region.id ? "secondary" : "ghost"}
+              size="sm"
+              className="rounded-l-none px-2"
+              aria-label={`Remove ${region.name}`}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {activeId !== null && (
+        <p className="text-xs text-muted-foreground">
+          Saved videos and clips keep only this region
+        </p>
+      )}
+    </div>
+  );
+};
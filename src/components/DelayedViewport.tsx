@@ -0,0 +1,556 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Button } from '@/components/ui/button';
+import { EyeOff, Maximize, Minimize, PictureInPicture2, Snowflake, ZoomIn } from 'lucide-react';
+import { cn, formatDuration } from '@/lib/utils';
+import type { DelayEngine, OnionSkinSettings } from '@/lib/delayEngine';
+import type { BufferGap } from '@/lib/bufferGaps';
+import { DEFAULT_FRAME_TRANSFORM, drawTransformed, getTransformedSize, type FrameTransform } from '@/lib/frameTransform';
+import { isDocumentPictureInPictureSupported, isPictureInPictureSupported, openPictureInPictureWindow } from '@/lib/pictureInPicture';
+import { FULL_FRAME, applyCrop, getZoomFactor, isFullFrame, panCrop, zoomCrop, type CropRect } from '@/lib/cropRegion';
+
+interface DelayedViewportProps {
+  engine: DelayEngine;
+  viewId: string;
+  label: string;
+  delaySeconds: number;
+  // Delay actually shown, in milliseconds
+  effectiveDelay: number;
+  isRamping: boolean;
+  gap: BufferGap | null;
+  // False once the stream stops; the last frame is cleared
+  isActive: boolean;
+  isFrozen: boolean;
+  headerActions?: React.ReactNode;
+  // Shown until the first frame arrives
+  placeholder: React.ReactNode;
+  // Shown over drawn frames only
+  frameOverlay?: React.ReactNode;
+  // Shown over the viewport at all times
+  children?: React.ReactNode;
+  // Shown under the viewport, or along its bottom edge in fullscreen
+  footer?: React.ReactNode;
+  // Reference blended over every frame drawn; only used when enabled
+  onionSkin?: OnionSkinLayer;
+  // Mirroring and rotation for every frame drawn, and how the result fits the viewport
+  transform?: FrameTransform;
+  // Part of the transformed frame shown; pinch, drag and double-tap change it through onZoomChange
+  zoom?: CropRect;
+  onZoomChange?: (zoom: CropRect) => void;
+  // Shown under the video in a Document Picture-in-Picture window
+  pictureInPictureControls?: React.ReactNode;
+}
+
+export interface OnionSkinLayer {
+  settings: OnionSkinSettings;
+  // View whose frames are the 'offset' reference
+  ghostViewId: string;
+  pinnedImage: ImageBitmap | null;
+  // Read when drawing, since the element can mount after the layer is made
+  liveVideoRef: React.RefObject<HTMLVideoElement>;
+}
+
+// Blends the layer's reference over a drawn frame, stretched to the frame's size and transformed the same way
+const drawOnionSkin = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  transform: FrameTransform,
+  layer: OnionSkinLayer,
+  ghostFrame: HTMLCanvasElement | null
+) => {
+  const { settings, pinnedImage, liveVideoRef } = layer;
+  let reference: CanvasImageSource | null = ghostFrame;
+  if (settings.source === 'pinned') {
+    reference = pinnedImage;
+  } else if (settings.source === 'live') {
+    const liveVideo = liveVideoRef.current;
+    reference = liveVideo && liveVideo.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA ? liveVideo : null;
+  }
+  if (!reference) return;
+
+  ctx.save();
+  ctx.globalAlpha = settings.opacity;
+  ctx.globalCompositeOperation = settings.blend === 'difference' ? 'difference' : 'source-over';
+  drawTransformed(ctx, reference, width, height, transform);
+  ctx.restore();
+};
+
+// Two taps closer together than this, in time and distance, reset the zoom
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP_PX = 20;
+
+// Width of a new Picture-in-Picture window, and the room its controls take below the video
+const PIP_WINDOW_WIDTH = 480;
+const PIP_CONTROLS_HEIGHT = 56;
+
+// Copies a frame so it outlives the engine event it came with
+const copyFrame = (canvas: HTMLCanvasElement, source: CanvasImageSource, width: number, height: number) => {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  canvas.getContext('2d')?.drawImage(source, 0, 0, width, height);
+};
+
+// Calls `onFrame` for each new frame of the live video, or every animation frame where
+// requestVideoFrameCallback isn't supported; returns a function that stops it
+const watchLiveVideo = (videoRef: React.RefObject<HTMLVideoElement>, onFrame: () => void): (() => void) => {
+  let isWatching = true;
+  let cancel = () => {};
+  const schedule = () => {
+    if (!isWatching) return;
+    const video = videoRef.current;
+    if (video && typeof video.requestVideoFrameCallback === 'function') {
+      const id = video.requestVideoFrameCallback(tick);
+      cancel = () => video.cancelVideoFrameCallback(id);
+    } else {
+      const id = requestAnimationFrame(tick);
+      cancel = () => cancelAnimationFrame(id);
+    }
+  };
+  const tick = () => {
+    onFrame();
+    schedule();
+  };
+  schedule();
+
+  return () => {
+    isWatching = false;
+    cancel();
+  };
+};
+
+// Draws a view's last frame through its transform and zoom, with the onion skin on top
+const paintFrame = (
+  canvas: HTMLCanvasElement,
+  frame: HTMLCanvasElement,
+  transform: FrameTransform,
+  zoom: CropRect,
+  onionSkin: OnionSkinLayer | undefined,
+  ghostFrame: HTMLCanvasElement | null
+) => {
+  const size = getTransformedSize({ width: frame.width, height: frame.height }, transform);
+  if (canvas.width !== size.width || canvas.height !== size.height) {
+    canvas.width = size.width;
+    canvas.height = size.height;
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.save();
+  // Zoomed views sample the stored frame itself rather than enlarging the canvas
+  applyCrop(ctx, zoom, size, size);
+  drawTransformed(ctx, frame, frame.width, frame.height, transform);
+  if (onionSkin?.settings.enabled) {
+    drawOnionSkin(ctx, frame.width, frame.height, transform, onionSkin, ghostFrame);
+  }
+  ctx.restore();
+};
+
+// One delayed view: draws the engine's frames for `viewId` and can go fullscreen on its own
+export const DelayedViewport: React.FC<DelayedViewportProps> = ({
+  engine,
+  viewId,
+  label,
+  delaySeconds,
+  effectiveDelay,
+  isRamping,
+  gap,
+  isActive,
+  isFrozen,
+  headerActions,
+  placeholder,
+  frameOverlay,
+  children,
+  footer,
+  onionSkin,
+  transform = DEFAULT_FRAME_TRANSFORM,
+  zoom = FULL_FRAME,
+  onZoomChange,
+  pictureInPictureControls
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Last frame of the ghost view, kept because engine frames are only valid during their event
+  const ghostCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const hasGhostFrame = useRef(false);
+  // This view's last frame at its stored resolution, so zoom and transform changes can redraw a held view
+  const frameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Capture time of that frame, which picks the transform of the camera it came from
+  const frameTimestampRef = useRef<number | null>(null);
+  const [hasFrame, setHasFrame] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  // Pointers down on the canvas, for drag-to-pan and pinch-to-zoom
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const tapStart = useRef<{ time: number; x: number; y: number } | null>(null);
+  const lastTap = useRef<{ time: number; x: number; y: number } | null>(null);
+  // Several pointer moves can arrive before the new zoom comes back as a prop
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  const [canPictureInPicture] = useState(isPictureInPictureSupported);
+  // The canvas's stream while it's shown in Picture-in-Picture, and the Document Picture-in-Picture window if used
+  const [pipStream, setPipStream] = useState<MediaStream | null>(null);
+  const [pipWindow, setPipWindow] = useState<Window | null>(null);
+  // Plays the stream for plain video Picture-in-Picture
+  const pipVideoRef = useRef<HTMLVideoElement>(null);
+  const closePictureInPictureRef = useRef<(() => void) | null>(null);
+
+  // Draw each delayed frame the engine picks for this view; the frame is only valid during the callback
+  useEffect(() => {
+    const ghostViewId = onionSkin?.settings.enabled ? onionSkin.ghostViewId : null;
+    const redraw = () => {
+      const canvas = canvasRef.current;
+      const frame = frameCanvasRef.current;
+      if (!canvas || !frame) return;
+      const frameTransform = frameTimestampRef.current === null ? transform : engine.getFrameTransform(frameTimestampRef.current);
+      paintFrame(canvas, frame, frameTransform, zoom, onionSkin, hasGhostFrame.current ? ghostCanvasRef.current : null);
+    };
+    // A held view gets no new frames, so show the change on the one it has
+    redraw();
+    // The live reference keeps moving while this view is frozen or looping
+    const stopWatchingLive = onionSkin?.settings.enabled && onionSkin.settings.source === 'live'
+      ? watchLiveVideo(onionSkin.liveVideoRef, redraw)
+      : null;
+
+    const unsubscribe = engine.on('frame', ({ viewId: frameViewId, source, width, height, timestamp }) => {
+      if (frameViewId === ghostViewId) {
+        ghostCanvasRef.current ??= document.createElement('canvas');
+        copyFrame(ghostCanvasRef.current, source, width, height);
+        hasGhostFrame.current = true;
+        return;
+      }
+
+      if (frameViewId !== viewId) return;
+      frameCanvasRef.current ??= document.createElement('canvas');
+      copyFrame(frameCanvasRef.current, source, width, height);
+      frameTimestampRef.current = timestamp;
+      redraw();
+      setHasFrame(true);
+    });
+    return () => {
+      unsubscribe();
+      stopWatchingLive?.();
+    };
+  }, [engine, viewId, onionSkin, transform, zoom]);
+
+  useEffect(() => {
+    if (!onionSkin?.settings.enabled || onionSkin.settings.source !== 'offset') {
+      hasGhostFrame.current = false;
+    }
+  }, [onionSkin]);
+
+  useEffect(() => {
+    if (!isActive) {
+      setHasFrame(false);
+      frameCanvasRef.current = null;
+      frameTimestampRef.current = null;
+      closePictureInPictureRef.current?.();
+    }
+  }, [isActive]);
+
+  useEffect(() => {
+    return () => closePictureInPictureRef.current?.();
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement === containerRef.current);
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    if (!containerRef.current) return;
+
+    try {
+      if (!isFullscreen) {
+        if (containerRef.current.requestFullscreen) {
+          await containerRef.current.requestFullscreen();
+        }
+        setIsFullscreen(true);
+      } else {
+        if (document.fullscreenElement && document.exitFullscreen) {
+          await document.exitFullscreen();
+        }
+        setIsFullscreen(false);
+      }
+    } catch (error) {
+      console.error('Fullscreen error:', error);
+    }
+  };
+
+  // Floats this view over other apps. The stream carries whatever the canvas draws, so the
+  // floating copy keeps the view's delay, transform and zoom as they change.
+  const openPictureInPicture = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const stream = canvas.captureStream();
+    const handleClose = () => {
+      stream.getTracks().forEach(track => track.stop());
+      closePictureInPictureRef.current = null;
+      setPipStream(null);
+      setPipWindow(null);
+      engine.setPictureInPicture(viewId, false);
+    };
+
+    try {
+      if (isDocumentPictureInPictureSupported()) {
+        const videoHeight = Math.round((PIP_WINDOW_WIDTH * canvas.height) / canvas.width);
+        const pip = await openPictureInPictureWindow(
+          PIP_WINDOW_WIDTH,
+          videoHeight + (pictureInPictureControls ? PIP_CONTROLS_HEIGHT : 0)
+        );
+        pip.addEventListener('pagehide', handleClose, { once: true });
+        closePictureInPictureRef.current = () => pip.close();
+        setPipWindow(pip);
+        setPipStream(stream);
+        engine.setPictureInPicture(viewId, true, pip);
+        return;
+      }
+
+      const video = pipVideoRef.current;
+      if (!video) throw new Error('Picture-in-Picture video is missing');
+      video.srcObject = stream;
+      await video.play();
+      await video.requestPictureInPicture();
+      video.addEventListener('leavepictureinpicture', () => {
+        video.srcObject = null;
+        handleClose();
+      }, { once: true });
+      closePictureInPictureRef.current = () => {
+        if (document.pictureInPictureElement === video) {
+          document.exitPictureInPicture();
+        }
+      };
+      setPipStream(stream);
+      engine.setPictureInPicture(viewId, true);
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      console.error('Picture-in-Picture error:', error);
+    }
+  };
+
+  const setZoom = (next: CropRect) => {
+    zoomRef.current = next;
+    onZoomChange?.(next);
+  };
+
+  // Where the frame appears on screen, since object-fit can crop or letterbox the canvas
+  const getFrameBox = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || canvas.width === 0 || canvas.height === 0) return null;
+    const rect = canvas.getBoundingClientRect();
+    const fitScale = transform.fit === 'contain'
+      ? Math.min(rect.width / canvas.width, rect.height / canvas.height)
+      : Math.max(rect.width / canvas.width, rect.height / canvas.height);
+    const width = canvas.width * fitScale;
+    const height = canvas.height * fitScale;
+    return { left: rect.left + (rect.width - width) / 2, top: rect.top + (rect.height - height) / 2, width, height };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!onZoomChange) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    // Only a lone pointer can be a tap
+    tapStart.current = pointers.current.size === 1
+      ? { time: event.timeStamp, x: event.clientX, y: event.clientY }
+      : null;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const previous = pointers.current.get(event.pointerId);
+    const box = getFrameBox();
+    if (!previous || !box) return;
+    const current = { x: event.clientX, y: event.clientY };
+    pointers.current.set(event.pointerId, current);
+    const zoomed = zoomRef.current;
+
+    const other = [...pointers.current].find(([id]) => id !== event.pointerId)?.[1];
+    if (!other) {
+      // The picture follows the finger
+      setZoom(panCrop(
+        zoomed,
+        -((current.x - previous.x) / box.width) * zoomed.width,
+        -((current.y - previous.y) / box.height) * zoomed.height
+      ));
+      return;
+    }
+
+    // Pinch: scale around the point between the fingers, then follow it as it moves
+    const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+    const after = Math.hypot(current.x - other.x, current.y - other.y);
+    if (before === 0) return;
+    const midBefore = { x: (previous.x + other.x) / 2, y: (previous.y + other.y) / 2 };
+    const midAfter = { x: (current.x + other.x) / 2, y: (current.y + other.y) / 2 };
+    const scaled = zoomCrop(
+      zoomed,
+      after / before,
+      zoomed.x + ((midBefore.x - box.left) / box.width) * zoomed.width,
+      zoomed.y + ((midBefore.y - box.top) / box.height) * zoomed.height
+    );
+    setZoom(panCrop(
+      scaled,
+      -((midAfter.x - midBefore.x) / box.width) * scaled.width,
+      -((midAfter.y - midBefore.y) / box.height) * scaled.height
+    ));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointers.current.delete(event.pointerId)) return;
+    const start = tapStart.current;
+    const isTap = event.type === 'pointerup' && start !== null &&
+      event.timeStamp - start.time < DOUBLE_TAP_MS &&
+      Math.hypot(event.clientX - start.x, event.clientY - start.y) < TAP_SLOP_PX;
+    tapStart.current = null;
+    if (!isTap) return;
+
+    const last = lastTap.current;
+    if (last && event.timeStamp - last.time < DOUBLE_TAP_MS && Math.hypot(event.clientX - last.x, event.clientY - last.y) < TAP_SLOP_PX) {
+      setZoom(FULL_FRAME);
+      lastTap.current = null;
+    } else {
+      lastTap.current = { time: event.timeStamp, x: event.clientX, y: event.clientY };
+    }
+  };
+
+  const isZoomed = !isFullFrame(zoom);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium truncate">
+          {label} ({isRamping ? `${(effectiveDelay / 1000).toFixed(1)}s → ${delaySeconds}s` : `${delaySeconds}s`})
+        </h3>
+        <div className="flex items-center gap-1">
+          {headerActions}
+          {hasFrame && canPictureInPicture && (
+            <Button
+              onClick={() => pipStream ? closePictureInPictureRef.current?.() : openPictureInPicture()}
+              variant={pipStream ? "secondary" : "ghost"}
+              size="sm"
+              className="h-6 w-6 p-0"
+              aria-label={pipStream ? `Close Picture-in-Picture for ${label}` : `Float ${label} in Picture-in-Picture`}
+              aria-pressed={pipStream !== null}
+            >
+              <PictureInPicture2 className="w-3 h-3" />
+            </Button>
+          )}
+          {hasFrame && (
+            <Button
+              onClick={toggleFullscreen}
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              aria-label={isFullscreen ? `Exit fullscreen for ${label}` : `Show ${label} fullscreen`}
+            >
+              {isFullscreen ? (
+                <Minimize className="w-3 h-3" />
+              ) : (
+                <Maximize className="w-3 h-3" />
+              )}
+            </Button>
+          )}
+        </div>
+      </div>
+      <div
+        ref={containerRef}
+        className={cn(
+          "relative bg-secondary rounded-lg overflow-hidden transition-smooth",
+          isFullscreen
+            ? "fixed inset-4 z-40 bg-black rounded-lg"
+            : "aspect-video"
+        )}
+      >
+        <canvas
+          ref={canvasRef}
+          aria-label={label}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={cn(
+            "w-full h-full animate-fade-in transition-opacity",
+            transform.fit === 'contain' ? "object-contain" : "object-cover",
+            // Vertical swipes still scroll the page until the view is zoomed in
+            onZoomChange && (isZoomed ? "touch-none cursor-move" : "touch-pan-y"),
+            !hasFrame && "hidden",
+            gap && "opacity-40"
+          )}
+        />
+        {isZoomed && hasFrame && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 pointer-events-none inline-flex items-center gap-1 px-2 py-1 rounded-full bg-black/70 text-white text-xs">
+            <ZoomIn className="w-3 h-3" />
+            <span>{getZoomFactor(zoom).toFixed(1)}× • double-tap to reset</span>
+          </div>
+        )}
+        {gap && hasFrame && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-black/70 text-white text-xs sm:text-sm">
+              <EyeOff className="w-3 h-3" />
+              <span>Gap in recording • {formatDuration(gap.end - gap.start)}</span>
+            </div>
+          </div>
+        )}
+        {isFrozen && hasFrame && (
+          <div className="absolute bottom-2 left-2 pointer-events-none inline-flex items-center gap-1 px-2 py-1 rounded-full bg-black/70 text-white text-xs">
+            <Snowflake className="w-3 h-3" />
+            <span>Frozen • still recording</span>
+          </div>
+        )}
+        {!hasFrame && placeholder}
+        {hasFrame && frameOverlay}
+        {children}
+
+        {/* Fullscreen overlay controls */}
+        {isFullscreen && (
+          <div className="absolute top-4 right-4 flex items-center gap-2">
+            <span className="px-2 py-1 rounded bg-black/50 text-white text-xs">{label}</span>
+            <Button
+              onClick={toggleFullscreen}
+              variant="secondary"
+              size="sm"
+              className="bg-black/50 backdrop-blur-sm"
+            >
+              <Minimize className="w-4 h-4 mr-2" />
+              Exit Fullscreen
+            </Button>
+          </div>
+        )}
+
+        {isFullscreen && footer && (
+          <div className="absolute inset-x-4 bottom-4 rounded-lg bg-black/60 backdrop-blur-sm p-2 text-white">
+            {footer}
+          </div>
+        )}
+      </div>
+      {!isFullscreen && footer}
+
+      <video ref={pipVideoRef} muted playsInline className="hidden" />
+      {pipWindow && pipStream && createPortal(
+        <div className="flex flex-col h-screen bg-black text-white">
+          <video
+            ref={(video) => {
+              if (video && video.srcObject !== pipStream) video.srcObject = pipStream;
+            }}
+            autoPlay
+            muted
+            playsInline
+            aria-label={label}
+            className="flex-1 min-h-0 w-full object-contain"
+          />
+          {pictureInPictureControls && (
+            <div className="flex items-center justify-center gap-2 p-2">
+              {pictureInPictureControls}
+            </div>
+          )}
+        </div>,
+        pipWindow.document.body
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Layers, Pin, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  MIN_ONION_SKIN_OFFSET_SECONDS,
+  MAX_ONION_SKIN_OFFSET_SECONDS,
+  type OnionSkinSettings,
+  type OnionSkinSource,
+  type PinnedFrame
+} from '@/lib/delayEngine';
+
+interface OnionSkinControlsProps {
+  settings: OnionSkinSettings;
+  pins: PinnedFrame[];
+  onChange: (patch: Partial<OnionSkinSettings>) => void;
+  onPin: () => void;
+  onRemovePin: (id: string) => void;
+  // False until the main view has shown a frame
+  canPin: boolean;
+}
+
+const SOURCES: { value: OnionSkinSource; label: string }[] = [
+  { value: 'offset', label: 'Trailing' },
+  { value: 'pinned', label: 'Pinned' },
+  { value: 'live', label: 'Live' }
+];
+
+const PinThumbnail: React.FC<{ pin: PinnedFrame }> = ({ pin }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = 96;
+    canvas.height = Math.round((96 * pin.image.height) / pin.image.width);
+    canvas.getContext('2d')?.drawImage(pin.image, 0, 0, canvas.width, canvas.height);
+  }, [pin]);
+
+  return <canvas ref={canvasRef} className="block w-24 rounded" />;
+};
+
+// Settings for the reference frame blended over the main delayed view
+export const OnionSkinControls: React.FC<OnionSkinControlsProps> = ({
+  settings,
+  pins,
+  onChange,
+  onPin,
+  onRemovePin,
+  canPin
+}) => {
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium inline-flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Onion Skin
+        </label>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onChange({ enabled })}
+          aria-label="Show onion skin"
+        />
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {SOURCES.map(({ value, label }) => (
+              <Button
+                key={value}
+                onClick={() => onChange({ source: value })}
+                variant={settings.source === value ? "secondary" : "ghost"}
+                size="sm"
+                aria-pressed={settings.source === value}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          {settings.source === 'offset' && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Frame minus</span>
+                <span>{settings.offsetSeconds.toFixed(1)}s</span>
+              </div>
+              <input
+                type="range"
+                min={MIN_ONION_SKIN_OFFSET_SECONDS}
+                max={MAX_ONION_SKIN_OFFSET_SECONDS}
+                step="0.1"
+                value={settings.offsetSeconds}
+                onChange={(e) => onChange({ offsetSeconds: Number(e.target.value) })}
+                className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
+                  [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4
+                  [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-accent"
+                aria-label="Onion skin offset"
+              />
+            </div>
+          )}
+
+          {settings.source === 'pinned' && (
+            <div className="space-y-2">
+              <Button onClick={onPin} variant="outline" size="sm" className="w-full" disabled={!canPin}>
+                <Pin className="w-4 h-4 mr-2" />
+                Pin Current Frame
+              </Button>
+              {pins.length > 0 ? (
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {pins.map((pin, index) => (
+                    <div key={pin.id} className="relative shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => onChange({ pinId: pin.id })}
+                        className={cn(
+                          "block rounded border-2",
+                          settings.pinId === pin.id ? "border-accent" : "border-transparent"
+                        )}
+                        aria-label={`Compare with pin ${index + 1}`}
+                        aria-pressed={settings.pinId === pin.id}
+                      >
+                        <PinThumbnail pin={pin} />
+                      </button>
+                      <Button
+                        onClick={() => onRemovePin(pin.id)}
+                        variant="secondary"
+                        size="sm"
+                        className="absolute top-1 right-1 h-5 w-5 p-0 bg-black/50 text-white"
+                        aria-label={`Remove pin ${index + 1}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Pin a frame, such as rep 1 at the bottom, to compare later reps against it
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Opacity</span>
+              <span>{Math.round(settings.opacity * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0.05"
+              max="1"
+              step="0.05"
+              value={settings.opacity}
+              onChange={(e) => onChange({ opacity: Number(e.target.value) })}
+              className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
+                [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4
+                [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-accent"
+              aria-label="Onion skin opacity"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm">Difference Blend</label>
+              <p className="text-xs text-muted-foreground">Highlights only what moved</p>
+            </div>
+            <Switch
+              checked={settings.blend === 'difference'}
+              onCheckedChange={(checked) => onChange({ blend: checked ? 'difference' : 'normal' })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
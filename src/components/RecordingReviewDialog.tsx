@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Download, Loader2, Pause, Play } from 'lucide-react';
+import { formatDuration } from '@/lib/utils';
+import type { DelayEngine } from '@/lib/delayEngine';
+import type { RecoveredRecording } from '@/lib/recordingJournal';
+import { drawTransformed, getTransformedSize, type FrameTransform } from '@/lib/frameTransform';
+
+interface RecordingReviewDialogProps {
+  engine: DelayEngine;
+  recording: RecoveredRecording;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSave: () => void;
+  // Applied to the preview as it will be to the saved file
+  transform: FrameTransform;
+}
+
+// Plays JPEG entries on a canvas at their recorded timestamps, with a scrubber
+const JpegRecordingPlayer: React.FC<{ recording: RecoveredRecording; transform: FrameTransform }> = ({ recording, transform }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const { entries } = recording;
+  const firstTimestamp = entries[0].timestamp;
+  const lastIndex = entries.length - 1;
+
+  useEffect(() => {
+    let cancelled = false;
+    createImageBitmap(entries[index].data)
+      .then(bitmap => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) {
+          bitmap.close();
+          return;
+        }
+        const size = getTransformedSize({ width: bitmap.width, height: bitmap.height }, transform);
+        if (canvas.width !== size.width || canvas.height !== size.height) {
+          canvas.width = size.width;
+          canvas.height = size.height;
+        }
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          drawTransformed(ctx, bitmap, bitmap.width, bitmap.height, transform);
+        }
+        bitmap.close();
+      })
+      .catch(error => console.error('Error decoding recorded frame:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [entries, index, transform]);
+
+  // Advances to the next frame after the gap between their timestamps, so playback runs at recorded speed
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (index >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const wait = entries[index + 1].timestamp - entries[index].timestamp;
+    const timer = setTimeout(() => setIndex(index + 1), Math.max(0, wait));
+    return () => clearTimeout(timer);
+  }, [entries, index, isPlaying, lastIndex]);
+
+  const togglePlaying = () => {
+    if (!isPlaying && index >= lastIndex) {
+      setIndex(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas ref={canvasRef} aria-label="Recorded frame" className="w-full aspect-video bg-black rounded-lg" />
+      <div className="flex items-center gap-2">
+        <Button
+          onClick={togglePlaying}
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          aria-label={isPlaying ? 'Pause review' : 'Play review'}
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={index}
+          onChange={(e) => {
+            setIsPlaying(false);
+            setIndex(Number(e.target.value));
+          }}
+          className="flex-1"
+          aria-label="Scrub recording"
+        />
+        <span className="text-xs text-muted-foreground tabular-nums w-16 text-right">
+          {formatDuration(entries[index].timestamp - firstTimestamp)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// Reviews a recovered recording before it's saved or discarded
+export const RecordingReviewDialog: React.FC<RecordingReviewDialogProps> = ({
+  engine,
+  recording,
+  open,
+  onOpenChange,
+  isSaving,
+  onSave,
+  transform
+}) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const duration = recording.entries[recording.entries.length - 1].timestamp - recording.entries[0].timestamp;
+
+  // Encoded recordings are muxed into a file the browser's own player can show
+  useEffect(() => {
+    if (!open || recording.bufferMode !== 'encoded') return;
+
+    let cancelled = false;
+    let url: string | null = null;
+    setIsPreparing(true);
+    engine.createRecordingPreview(recording)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setPreviewUrl(url);
+      })
+      .catch(error => console.error('Error preparing recording preview:', error))
+      .finally(() => {
+        if (!cancelled) setIsPreparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setPreviewUrl(null);
+    };
+  }, [engine, recording, open, transform]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Last recording</DialogTitle>
+          <DialogDescription>
+            {formatDuration(duration)} recorded {new Date(recording.recordedAt).toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        {recording.bufferMode === 'jpeg' ? (
+          <JpegRecordingPlayer recording={recording} transform={transform} />
+        ) : previewUrl ? (
+          <video src={previewUrl} controls playsInline className="w-full aspect-video bg-black rounded-lg" />
+        ) : (
+          <div className="flex items-center justify-center aspect-video bg-secondary rounded-lg text-sm text-muted-foreground">
+            {isPreparing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Preparing preview...
+              </>
+            ) : (
+              'Preview unavailable'
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={onSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Save Video
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, Loader2, X } from 'lucide-react';
+import { formatDuration } from '@/lib/utils';
+import { downloadBlob } from '@/lib/videoUtils';
+import type { ReplayClip } from '@/lib/delayEngine';
+
+interface ReplayClipTrayProps {
+  clips: ReplayClip[];
+  // Triggers still waiting for their post-trigger window
+  pendingCount: number;
+  onRemove: (id: string) => void;
+}
+
+const ReplayClipCard: React.FC<{ clip: ReplayClip; onRemove: (id: string) => void }> = ({ clip, onRemove }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(clip.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [clip.blob]);
+
+  return (
+    <div className="w-40 shrink-0 space-y-1">
+      <div className="relative">
+        {url && (
+          <video
+            src={url}
+            controls
+            playsInline
+            preload="metadata"
+            className="w-full aspect-video bg-black rounded-md"
+          />
+        )}
+        <Button
+          onClick={() => onRemove(clip.id)}
+          variant="secondary"
+          size="sm"
+          className="absolute top-1 right-1 h-5 w-5 p-0 bg-black/50 text-white"
+          aria-label="Remove clip"
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="flex items-center justify-between gap-1">
+        <span className="text-xs text-muted-foreground truncate">
+          {new Date(clip.triggeredAt).toLocaleTimeString()} • {formatDuration(clip.duration)}
+        </span>
+        <Button
+          onClick={() => downloadBlob(clip.blob, clip.filename)}
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          aria-label={`Save ${clip.filename}`}
+        >
+          <Download className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Recent instant replays, newest first, each playable and saveable on its own
+export const ReplayClipTray: React.FC<ReplayClipTrayProps> = ({ clips, pendingCount, onRemove }) => {
+  if (clips.length === 0 && pendingCount === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Recent Clips</h3>
+        {pendingCount > 0 && (
+          <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Capturing {pendingCount} {pendingCount === 1 ? 'clip' : 'clips'}...
+          </span>
+        )}
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {clips.map(clip => (
+          <ReplayClipCard key={clip.id} clip={clip} onRemove={onRemove} />
+        ))}
+      </div>
+    </div>
+  );
+};
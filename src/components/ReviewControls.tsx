@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronsLeft, ChevronsRight, Pause, Play, Rewind, StepBack, StepForward } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { REVIEW_RATES, type DelayEngine } from '@/lib/delayEngine';
+
+interface ReviewControlsProps {
+  engine: DelayEngine;
+  // Current review playback speed; negative plays in reverse
+  reviewRate: number;
+  className?: string;
+}
+
+/**
+ * Frame stepping and variable-speed playback for a held view, with the
+ * shortcuts video editors use: `,` and `.` step a frame (with Shift, a second),
+ * J plays backward, K stops and L plays forward; pressing J or L again speeds up.
+ */
+export const ReviewControls: React.FC<ReviewControlsProps> = ({ engine, reviewRate, className }) => {
+  const [speed, setSpeed] = useState<number>(1);
+
+  // Starts playing in `direction` at the chosen speed, or one speed faster if already playing that way
+  const play = (direction: 1 | -1) => {
+    let nextSpeed = speed;
+    if (Math.sign(reviewRate) === direction) {
+      const index = REVIEW_RATES.indexOf(Math.abs(reviewRate) as typeof REVIEW_RATES[number]);
+      nextSpeed = REVIEW_RATES[Math.min(REVIEW_RATES.length - 1, index + 1)];
+      setSpeed(nextSpeed);
+    }
+    engine.setReviewRate(direction * nextSpeed);
+  };
+
+  const changeSpeed = (nextSpeed: number) => {
+    setSpeed(nextSpeed);
+    if (reviewRate !== 0) {
+      engine.setReviewRate(Math.sign(reviewRate) * nextSpeed);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (event.metaKey || event.ctrlKey || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      switch (event.key) {
+        case ',':
+        case '<':
+          engine.step(-1, event.shiftKey ? 'second' : 'frame');
+          break;
+        case '.':
+        case '>':
+          engine.step(1, event.shiftKey ? 'second' : 'frame');
+          break;
+        case 'j':
+        case 'J':
+          if (event.repeat) return;
+          play(-1);
+          break;
+        case 'k':
+        case 'K':
+          engine.setReviewRate(0);
+          break;
+        case 'l':
+        case 'L':
+          if (event.repeat) return;
+          play(1);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-center gap-1">
+        <Button onClick={() => engine.step(-1, 'second')} variant="ghost" size="sm" className="h-8 w-8 p-0" title="Back one second (Shift+,)">
+          <ChevronsLeft className="w-4 h-4" />
+        </Button>
+        <Button onClick={() => engine.step(-1, 'frame')} variant="ghost" size="sm" className="h-8 w-8 p-0" title="Back one frame (,)">
+          <StepBack className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={() => play(-1)}
+          variant={reviewRate < 0 ? "accent" : "ghost"}
+          size="sm"
+          className="h-8 w-8 p-0"
+          title="Play backward (J)"
+        >
+          <Rewind className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={() => reviewRate === 0 ? play(1) : engine.setReviewRate(0)}
+          variant={reviewRate > 0 ? "accent" : "ghost"}
+          size="sm"
+          className="h-8 w-8 p-0"
+          title={reviewRate === 0 ? 'Play forward (L)' : 'Stop (K)'}
+        >
+          {reviewRate === 0 ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+        </Button>
+        <Button onClick={() => engine.step(1, 'frame')} variant="ghost" size="sm" className="h-8 w-8 p-0" title="Forward one frame (.)">
+          <StepForward className="w-4 h-4" />
+        </Button>
+        <Button onClick={() => engine.step(1, 'second')} variant="ghost" size="sm" className="h-8 w-8 p-0" title="Forward one second (Shift+.)">
+          <ChevronsRight className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex items-center justify-center gap-1" role="group" aria-label="Review speed">
+        {REVIEW_RATES.map(rate => (
+          <Button
+            key={rate}
+            onClick={() => changeSpeed(rate)}
+            variant={speed === rate ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            aria-pressed={speed === rate}
+          >
+            {rate}x
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
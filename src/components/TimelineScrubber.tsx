@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { DelayEngine, LoopWindow } from '@/lib/delayEngine';
+import { drawTransformed, getTransformedSize } from '@/lib/frameTransform';
+
+// A delay position to mark on the timeline, as a capture timestamp
+export interface TimelineMarker {
+  id: string;
+  label: string;
+  time: number;
+}
+
+interface TimelineScrubberProps {
+  engine: DelayEngine;
+  viewId: string;
+  // Capture timestamps spanned by the buffer
+  start: number;
+  end: number;
+  markers: TimelineMarker[];
+  // The running loop, shown with draggable in and out handles
+  loop?: LoopWindow | null;
+  onLoopChange?: (window: LoopWindow) => void;
+  className?: string;
+}
+
+const THUMBNAIL_WIDTH = 160;
+
+// Seconds before the newest frame, e.g. "−12.4s"
+const formatRelativeTime = (time: number, end: number) => {
+  return `−${(Math.max(0, end - time) / 1000).toFixed(1)}s`;
+};
+
+/**
+ * Scrubs a held view through the whole buffer. Dragging seeks the view, and a
+ * thumbnail follows the pointer on hover and drag. Pointer events cover mouse,
+ * pen and touch alike, so it works the same in fullscreen on a phone.
+ */
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({
+  engine,
+  viewId,
+  start,
+  end,
+  markers,
+  loop,
+  onLoopChange,
+  className
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const thumbnailRef = useRef<HTMLCanvasElement>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [previewTime, setPreviewTime] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // Thumbnails decode one at a time; only the latest request is kept while one is in flight
+  const thumbnailRequest = useRef<{ pending: number | null; isDecoding: boolean }>({ pending: null, isDecoding: false });
+
+  const duration = Math.max(1, end - start);
+  const toPercent = (time: number) => Math.min(100, Math.max(0, ((time - start) / duration) * 100));
+
+  // The playhead follows whatever the view shows, whether from playback or from seeking
+  useEffect(() => {
+    return engine.on('frame', (frame) => {
+      if (frame.viewId === viewId) setPlayhead(frame.timestamp);
+    });
+  }, [engine, viewId]);
+
+  useEffect(() => {
+    if (previewTime === null) return;
+    const request = thumbnailRequest.current;
+    request.pending = previewTime;
+    if (request.isDecoding) return;
+
+    const drawNext = async () => {
+      request.isDecoding = true;
+      while (request.pending !== null) {
+        const time = request.pending;
+        request.pending = null;
+        const frame = await engine.getFrameAt(time).catch(() => null);
+        const canvas = thumbnailRef.current;
+        if (!frame) continue;
+        if (canvas) {
+          const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+          const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+          // Drawn the way the view shows the frame, with the transform of the camera that captured it
+          const transform = engine.getFrameTransform(time);
+          const size = getTransformedSize({ width, height }, transform);
+          const scale = THUMBNAIL_WIDTH / size.width;
+          canvas.width = THUMBNAIL_WIDTH;
+          canvas.height = Math.round(size.height * scale);
+          const ctx = canvas.getContext('2d');
+          if (ctx) {
+            drawTransformed(ctx, frame, Math.round(width * scale), Math.round(height * scale), transform);
+          }
+        }
+        frame.close();
+      }
+      request.isDecoding = false;
+    };
+    drawNext();
+  }, [engine, previewTime]);
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return end;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return start + ratio * duration;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setIsDragging(true);
+    const time = timeAt(event.clientX);
+    setPreviewTime(time);
+    engine.seek(time);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    // Touch has no hover, so only a drag shows a thumbnail there
+    if (!isDragging && event.pointerType === 'touch') return;
+    const time = timeAt(event.clientX);
+    setPreviewTime(time);
+    if (isDragging) engine.seek(time);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    setIsDragging(false);
+    if (event.pointerType === 'touch') setPreviewTime(null);
+  };
+
+  // In/out handles take the pointer themselves so dragging them doesn't seek
+  const dragLoopEdge = (edge: keyof LoopWindow) => ({
+    onPointerDown: (event: React.PointerEvent<HTMLDivElement>) => {
+      event.stopPropagation();
+      event.currentTarget.setPointerCapture(event.pointerId);
+    },
+    onPointerMove: (event: React.PointerEvent<HTMLDivElement>) => {
+      event.stopPropagation();
+      if (!loop || !event.currentTarget.hasPointerCapture(event.pointerId)) return;
+      onLoopChange?.({ ...loop, [edge]: timeAt(event.clientX) });
+    },
+    onPointerUp: (event: React.PointerEvent<HTMLDivElement>) => {
+      event.stopPropagation();
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      engine.step(event.key === 'ArrowLeft' ? -1 : 1, event.shiftKey ? 'second' : 'frame');
+    }
+  };
+
+  return (
+    <div className={cn("space-y-1 select-none", className)}>
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Buffer timeline"
+        aria-valuemin={-(duration / 1000)}
+        aria-valuemax={0}
+        aria-valuenow={playhead !== null ? -((end - playhead) / 1000) : 0}
+        aria-valuetext={playhead !== null ? formatRelativeTime(playhead, end) : undefined}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => !isDragging && setPreviewTime(null)}
+        onKeyDown={handleKeyDown}
+        className="relative h-8 touch-none cursor-pointer"
+      >
+        <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-2 rounded-full bg-secondary" />
+
+        {loop && (
+          <>
+            <div
+              className="absolute top-1/2 -translate-y-1/2 h-2 bg-accent/40 pointer-events-none"
+              style={{ left: `${toPercent(loop.start)}%`, width: `${toPercent(loop.end) - toPercent(loop.start)}%` }}
+            />
+            {(['start', 'end'] as const).map(edge => (
+              <div
+                key={edge}
+                {...dragLoopEdge(edge)}
+                role="slider"
+                aria-label={edge === 'start' ? 'Loop in point' : 'Loop out point'}
+                aria-valuetext={formatRelativeTime(loop[edge], end)}
+                className="absolute top-0 bottom-0 w-4 -ml-2 flex items-center justify-center cursor-ew-resize touch-none z-10"
+                style={{ left: `${toPercent(loop[edge])}%` }}
+              >
+                <div className={cn("h-6 w-1.5 bg-accent", edge === 'start' ? "rounded-l-full" : "rounded-r-full")} />
+              </div>
+            ))}
+          </>
+        )}
+
+        {/* Where each view's delay sits in the buffer */}
+        {markers.map(marker => (
+          <div
+            key={marker.id}
+            className="absolute top-0 bottom-0 w-0.5 bg-accent"
+            style={{ left: `${toPercent(marker.time)}%` }}
+            title={`${marker.label} • ${formatRelativeTime(marker.time, end)}`}
+          />
+        ))}
+
+        {playhead !== null && (
+          <div
+            className="absolute top-0 bottom-0 -ml-1.5 w-3 rounded-full bg-primary shadow pointer-events-none"
+            style={{ left: `${toPercent(playhead)}%` }}
+          />
+        )}
+
+        {previewTime !== null && (
+          <div
+            className="absolute bottom-full mb-2 -translate-x-1/2 pointer-events-none rounded-md overflow-hidden bg-black shadow-lg"
+            style={{ left: `${toPercent(previewTime)}%` }}
+          >
+            <canvas ref={thumbnailRef} width={THUMBNAIL_WIDTH} height={90} className="block" />
+            <div className="px-1 py-0.5 text-center text-[10px] text-white tabular-nums">
+              {formatRelativeTime(previewTime, end)}
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+        <span>{formatRelativeTime(start, end)}</span>
+        <span>{playhead !== null ? formatRelativeTime(playhead, end) : ''}</span>
+        <span>0.0s</span>
+      </div>
+    </div>
+  );
+};
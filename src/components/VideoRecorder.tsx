@@ -1,127 +1,234 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useReducer, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Play, Square, Settings, Video, VideoOff, Pause, Download, Loader2, Maximize, Minimize, ChevronDown, RotateCcw, AlertTriangle, Info } from 'lucide-react';
-import { cn } from '@/lib/utils';
-import { saveFramesAsVideo, getVideoCodecInfo, getSupportedCodecs } from '@/lib/videoUtils';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Play, Square, Settings, Video, VideoOff, Pause, Download, Loader2, ChevronDown, RotateCcw, AlertTriangle, Info, FileJson, Mic, Volume2, VolumeX, Snowflake, SkipForward, Plus, X, History, Trash2, Clapperboard, Repeat } from 'lucide-react';
+import { cn, formatDuration } from '@/lib/utils';
+import { getVideoCodecInfo, getSupportedCodecs, downloadBlob } from '@/lib/videoUtils';
+import { isWebCodecsSupported } from '@/lib/encodedFrameBuffer';
+import { isOpfsSupported } from '@/lib/opfsSegmentStore';
+import { isAudioCaptureSupported } from '@/lib/delayedAudio';
+import { getMemoryBudgetBytes, estimateFrameBytes, predictBufferBytes, describeDegradation, formatBytes } from '@/lib/memoryBudget';
+import {
+  STORAGE_SCALES,
+  CAMERA_FRAME_SIZES,
+  getStorageSize,
+  isWebPEncodingSupported,
+  type CaptureResolution,
+  type FrameSize
+} from '@/lib/frameStorage';
+import type { DiagnosticsSnapshot } from '@/lib/captureDiagnostics';
+import { getCameraKey, getCssTransform, loadCameraTransform, saveCameraTransform, type FrameTransform } from '@/lib/frameTransform';
+import { FULL_FRAME, loadCropRegions, saveCropRegions, type CropRect, type CropRegion } from '@/lib/cropRegion';
+import { MAX_BUFFER_SECONDS, MAX_VIEWS, MAIN_VIEW_ID, MAX_CLIP_POST_SECONDS, LOOP_RATES, GHOST_VIEW_ID, getMaxDelaySeconds, type OnionSkinSettings, type UnfreezeMode } from '@/lib/delayEngine';
+import type { VideoSaveResult } from '@/lib/videoUtils';
+import { recorderReducer, initialRecorderState, canSend, hasActiveStream } from '@/lib/recorderMachine';
+import { useDelayedMirror } from '@/hooks/use-delayed-mirror';
 import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { DelayedViewport, type OnionSkinLayer } from '@/components/DelayedViewport';
+import { RecordingReviewDialog } from '@/components/RecordingReviewDialog';
+import { ReplayClipTray } from '@/components/ReplayClipTray';
+import { TimelineScrubber } from '@/components/TimelineScrubber';
+import { ReviewControls } from '@/components/ReviewControls';
+import { OnionSkinControls } from '@/components/OnionSkinControls';
+import { ViewTransformControls } from '@/components/ViewTransformControls';
+import { CropRegionControls } from '@/components/CropRegionControls';
 
 interface VideoRecorderProps {
   className?: string;
 }
 
+const FRAME_RATES = [10, 15, 24, 30, 60] as const;
+
+// Warn when the device delivers less than this share of the requested frame rate
+const FRAME_RATE_WARNING_RATIO = 0.8;
+
+// Older history spilled to disk; 0 keeps everything in memory only
+const SESSION_BUFFER_MINUTES = [0, 30, 45, 60] as const;
+
+const MAX_DELAY_SLIDER_SECONDS = 30;
+
+// Seconds of diagnostics snapshots kept for the JSON export
+const DIAGNOSTICS_HISTORY_LENGTH = 60;
+
+const getResolutionConstraints = (resolution: CaptureResolution) => {
+  return resolution === '1080p'
+    ? { width: { ideal: 1920 }, height: { ideal: 1080 } }
+    : { width: { ideal: 1280 }, height: { ideal: 720 } };
+};
+
+// Timestamped so repeated saves don't overwrite each other
+const getExportFilename = (prefix: string, container: 'mp4' | 'mkv' | 'webm') => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${prefix}-${timestamp}.${container}`;
+};
+
+
 export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
-  const [delaySeconds, setDelaySeconds] = useState(6);
-  const [bufferSeconds, setBufferSeconds] = useState(15);
-  const [resolution, setResolution] = useState<'720p' | '1080p'>('720p');
-  const [selectedCodec, setSelectedCodec] = useState<'av1' | 'hevc' | 'h264' | 'vp9'>('av1');
+  const [recorder, send] = useReducer(recorderReducer, initialRecorderState);
+  const isStreaming = hasActiveStream(recorder.status);
+  const isPaused = recorder.status === 'paused';
+  const isFrozen = recorder.status === 'frozen';
+  const [memoryBudgetBytes] = useState(getMemoryBudgetBytes);
+  const { engine, settings, stats, gaps: playbackGaps, lastRecording, clips, reviewRate, loop, pins, update } = useDelayedMirror({ memoryBudgetBytes });
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const isMobile = useIsMobile();
+  const {
+    delaySeconds,
+    extraViews,
+    bufferSeconds,
+    frameRate,
+    bufferMode,
+    sessionMinutes,
+    storageScale,
+    imageFormat,
+    imageQuality,
+    codec: selectedCodec,
+    backgroundCapture,
+    audioEnabled,
+    audioMuted,
+    clipPreSeconds,
+    clipPostSeconds,
+    loopSeconds,
+    loopRate,
+    onionSkin,
+    transform
+  } = settings;
+  const { bufferedFrameCount, bufferedDuration, spilledDuration, measuredFps, memoryUsage, pendingClipCount, oldestTimestamp, newestTimestamp } = stats;
+  const [resolution, setResolution] = useState<CaptureResolution>('720p');
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [diagnosticsSnapshot, setDiagnosticsSnapshot] = useState<DiagnosticsSnapshot | null>(null);
   const [selectedContainer, setSelectedContainer] = useState<'mp4' | 'mkv' | 'webm'>('mp4');
-  const [frameBuffer, setFrameBuffer] = useState<string[]>([]);
-  const [currentDelayedFrame, setCurrentDelayedFrame] = useState<string | null>(null);
-  const [isFullscreen, setIsFullscreen] = useState(false);
+  // User-given names for the delayed views, by view id
+  const [viewLabels, setViewLabels] = useState<Record<string, string>>({});
+  // Pinch-zoom of each delayed view, by view id
+  const [viewZooms, setViewZooms] = useState<Record<string, CropRect>>({});
+  const [cropRegions, setCropRegions] = useState<CropRegion[]>(loadCropRegions);
+  const [activeCropId, setActiveCropId] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
-  const [hasPermissions, setHasPermissions] = useState<boolean | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string>('');
   const [supportedCodecs, setSupportedCodecs] = useState<string[]>([]);
   const { toast } = useToast();
   
-  const delayedContainerRef = useRef<HTMLDivElement>(null);
-  
   const liveVideoRef = useRef<HTMLVideoElement>(null);
-  const delayedCanvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const captureIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const playbackIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const captureFrame = useCallback(() => {
-    if (isPaused || !liveVideoRef.current || !delayedCanvasRef.current) return;
-    const canvas = delayedCanvasRef.current;
-    const ctx = canvas.getContext('2d');
-    const video = liveVideoRef.current;
-    
-    if (ctx && video.videoWidth > 0) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      
-      const frameData = canvas.toDataURL('image/jpeg', 0.8);
-      
-      setFrameBuffer(prevBuffer => {
-        const newBuffer = [...prevBuffer, frameData];
-        // Keep buffer at configured size, drop frames from front when full
-        const maxFrames = bufferSeconds * 10; // 10 FPS
-        if (newBuffer.length > maxFrames) {
-          return newBuffer.slice(newBuffer.length - maxFrames);
-        }
-        return newBuffer;
-      });
-    }
-  }, [bufferSeconds, isPaused]);
-
-  const playDelayedFrames = useCallback(() => {
-    if (isPaused) return;
-    setFrameBuffer(prevBuffer => {
-      const framesToDelay = delaySeconds * 10; // 10 FPS
-      if (prevBuffer.length >= framesToDelay) {
-        const delayedFrame = prevBuffer[prevBuffer.length - framesToDelay];
-        setCurrentDelayedFrame(delayedFrame);
-      }
-      return prevBuffer;
-    });
-  }, [delaySeconds, isPaused]);
+  // Bumped by every start and stop, so a start still awaiting the camera can tell it was cancelled
+  const startAttemptRef = useRef(0);
+  const diagnosticsHistoryRef = useRef<DiagnosticsSnapshot[]>([]);
+  // Camera whose transform is being shown and edited
+  const cameraKeyRef = useRef(getCameraKey(undefined, facingMode));
+
+  // Kept stable between renders, since the main viewport resubscribes to frames when it changes
+  const onionSkinLayer = useMemo<OnionSkinLayer>(() => ({
+    settings: onionSkin,
+    ghostViewId: GHOST_VIEW_ID,
+    pinnedImage: pins.find(pin => pin.id === onionSkin.pinId)?.image ?? null,
+    liveVideoRef
+  }), [onionSkin, pins]);
+
+  // Surface what the engine decides on its own
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('degraded', (step) => {
+        toast({
+          title: "Memory budget exceeded",
+          description: describeDegradation(step),
+        });
+      }),
+      engine.on('fallback', (reason) => {
+        toast({
+          title: "Using JPEG frame buffer",
+          description: reason,
+          variant: "destructive"
+        });
+      }),
+      engine.on('sessionBufferUnavailable', () => {
+        toast({
+          title: "Session buffer unavailable",
+          description: "This browser can't store video on disk, so only the in-memory buffer is kept.",
+          variant: "destructive"
+        });
+      }),
+      engine.on('audioUnavailable', () => {
+        toast({
+          title: "Delayed audio unavailable",
+          description: "The microphone couldn't be used, so the delayed view and saved videos are silent.",
+          variant: "destructive"
+        });
+      })
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [engine, toast]);
 
   const checkCameraPermissions = async () => {
     try {
       const permissionStatus = await navigator.permissions.query({ name: 'camera' as PermissionName });
       const isGranted = permissionStatus.state === 'granted';
       const isDenied = permissionStatus.state === 'denied';
-      setHasPermissions(isDenied ? false : isGranted ? true : null);
+      send({ type: 'PERMISSION_CHECKED', permission: isDenied ? 'denied' : isGranted ? 'granted' : 'unknown' });
       return isGranted;
     } catch {
       // Fallback for browsers that don't support permissions API
-      setHasPermissions(null);
+      send({ type: 'PERMISSION_CHECKED', permission: 'unknown' });
       return null;
     }
   };
 
+  // Each camera keeps its own transform, so switching brings back the one set for it last time
+  const applyCameraTransform = (stream: MediaStream, mode: 'user' | 'environment') => {
+    cameraKeyRef.current = getCameraKey(stream.getVideoTracks()[0], mode);
+    update({ transform: loadCameraTransform(cameraKeyRef.current, mode) });
+  };
+
+  const updateTransform = (patch: Partial<FrameTransform>) => {
+    const next = { ...engine.settings.transform, ...patch };
+    update({ transform: next });
+    saveCameraTransform(cameraKeyRef.current, next);
+  };
+
   const startStream = async () => {
-    setErrorMessage('');
+    if (!canSend(recorder, 'START')) return;
+    send({ type: 'START' });
+    diagnosticsHistoryRef.current = [];
+    const attempt = ++startAttemptRef.current;
+    const isCancelled = () => attempt !== startAttemptRef.current;
     
     try {
-      const videoConstraints = resolution === '1080p' 
-        ? { width: { ideal: 1920 }, height: { ideal: 1080 } }
-        : { width: { ideal: 1280 }, height: { ideal: 720 } };
-        
       const stream = await navigator.mediaDevices.getUserMedia({ 
         video: { 
           facingMode: facingMode,
-          ...videoConstraints
+          frameRate: { ideal: frameRate },
+          ...getResolutionConstraints(resolution)
         }, 
-        audio: false 
+        audio: audioEnabled
       });
       
+      // Stopped or unmounted while the camera was being requested
+      if (isCancelled()) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
+      applyCameraTransform(stream, facingMode);
       
       if (liveVideoRef.current) {
         liveVideoRef.current.srcObject = stream;
         await liveVideoRef.current.play();
       }
       
-      setIsStreaming(true);
-      setHasPermissions(true);
-      setErrorMessage('');
-      
-      // Start capturing frames at 10 FPS
-      captureIntervalRef.current = setInterval(captureFrame, 100);
-      
-      // Start delayed playback at 10 FPS
-      playbackIntervalRef.current = setInterval(playDelayedFrames, 100);
+      await engine.start(stream);
+      // stopStream already released this stream, but the engine only started afterwards
+      if (isCancelled()) {
+        engine.stop();
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      send({ type: 'STREAM_READY' });
 
       toast({
         title: "Camera started",
@@ -129,12 +236,16 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
       });
       
     } catch (error: any) {
+      // A stop during startup can interrupt play(); stopStream has cleaned up already
+      if (isCancelled()) return;
       console.error('Error accessing camera:', error);
+      engine.stop();
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
       let errorMsg = 'Failed to access camera. ';
       
       if (error.name === 'NotAllowedError') {
         errorMsg += 'Please allow camera permissions and try again.';
-        setHasPermissions(false);
       } else if (error.name === 'NotFoundError') {
         errorMsg += 'No camera found on this device.';
       } else if (error.name === 'NotReadableError') {
@@ -143,7 +254,7 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
         errorMsg += 'Please check your camera connection and try again.';
       }
       
-      setErrorMessage(errorMsg);
+      send({ type: 'FAIL', message: errorMsg, permissionDenied: error.name === 'NotAllowedError' });
       toast({
         title: "Camera Error",
         description: errorMsg,
@@ -165,16 +276,13 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
     
     // Start new stream with new facing mode
     try {
-      const videoConstraints = resolution === '1080p' 
-        ? { width: { ideal: 1920 }, height: { ideal: 1080 } }
-        : { width: { ideal: 1280 }, height: { ideal: 720 } };
-        
       const stream = await navigator.mediaDevices.getUserMedia({ 
         video: { 
           facingMode: newFacingMode,
-          ...videoConstraints
+          frameRate: { ideal: frameRate },
+          ...getResolutionConstraints(resolution)
         }, 
-        audio: false 
+        audio: audioEnabled
       });
       
       streamRef.current = stream;
@@ -183,6 +291,9 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
         liveVideoRef.current.srcObject = stream;
         await liveVideoRef.current.play();
       }
+      await engine.setStream(stream);
+      // After setStream, so it lands on the new camera's frames and not the ones already buffered
+      applyCameraTransform(stream, newFacingMode);
     } catch (error: any) {
       console.error('Error switching camera:', error);
       // Revert facing mode if switch failed
@@ -204,74 +315,90 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
   };
 
   const stopStream = () => {
-    pauseStream(); // This will clear intervals
+    startAttemptRef.current++;
+    send({ type: 'STOP' });
+    engine.stop();
     
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
     
-    setIsStreaming(false);
-    setIsPaused(false);
-    setFrameBuffer([]);
-    setCurrentDelayedFrame(null);
+    send({ type: 'STOPPED' });
   };
 
-  const pauseStream = () => {
-    if (captureIntervalRef.current) {
-      clearInterval(captureIntervalRef.current);
-      captureIntervalRef.current = null;
-    }
-    
-    if (playbackIntervalRef.current) {
-      clearInterval(playbackIntervalRef.current);
-      playbackIntervalRef.current = null;
-    }
-    
-    setIsPaused(true);
+  const freezeView = () => {
+    send({ type: 'FREEZE' });
+    engine.freeze();
   };
 
-  const resumeStream = () => {
-    if (isStreaming) {
-      // Restart capture and playback intervals
-      captureIntervalRef.current = setInterval(captureFrame, 100);
-      playbackIntervalRef.current = setInterval(playDelayedFrames, 100);
-      setIsPaused(false);
+  const unfreezeView = (mode: UnfreezeMode) => {
+    send({ type: 'UNFREEZE' });
+    engine.unfreeze(mode);
+  };
+
+  // Slow-motion loop of the last rep; capture keeps going underneath, like a freeze
+  const startLoop = () => {
+    if (canSend(recorder, 'FREEZE')) {
+      send({ type: 'FREEZE' });
     }
+    engine.startLoop();
   };
 
-  const toggleFullscreen = async () => {
-    if (!delayedContainerRef.current) return;
+  const updateOnionSkin = (patch: Partial<OnionSkinSettings>) => {
+    update({ onionSkin: { ...engine.settings.onionSkin, ...patch } });
+  };
 
+  const pinFrame = async () => {
     try {
-      if (!isFullscreen) {
-        if (delayedContainerRef.current.requestFullscreen) {
-          await delayedContainerRef.current.requestFullscreen();
-        }
-        setIsFullscreen(true);
-      } else {
-        if (document.exitFullscreen) {
-          await document.exitFullscreen();
-        }
-        setIsFullscreen(false);
+      const pin = await engine.pinFrame();
+      if (pin) {
+        updateOnionSkin({ source: 'pinned', pinId: pin.id });
       }
     } catch (error) {
-      console.error('Fullscreen error:', error);
+      console.error('Error pinning frame:', error);
     }
   };
 
-  // Handle fullscreen change events
-  useEffect(() => {
-    const handleFullscreenChange = () => {
-      setIsFullscreen(!!document.fullscreenElement);
-    };
+  // Zooms the main view to the region and crops exports to it; null goes back to the whole frame
+  const selectCropRegion = (id: string | null) => {
+    const region = cropRegions.find(candidate => candidate.id === id) ?? null;
+    setActiveCropId(region?.id ?? null);
+    setViewZooms(zooms => ({ ...zooms, [MAIN_VIEW_ID]: region?.rect ?? FULL_FRAME }));
+    update({ exportCrop: region?.rect ?? null });
+  };
 
-    document.addEventListener('fullscreenchange', handleFullscreenChange);
-    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
-  }, []);
+  const saveCropRegion = (name: string) => {
+    const region: CropRegion = { id: `crop-${crypto.randomUUID()}`, name, rect: viewZooms[MAIN_VIEW_ID] ?? FULL_FRAME };
+    const regions = [...cropRegions, region];
+    setCropRegions(regions);
+    saveCropRegions(regions);
+    setActiveCropId(region.id);
+    update({ exportCrop: region.rect });
+  };
+
+  const removeCropRegion = (id: string) => {
+    const regions = cropRegions.filter(region => region.id !== id);
+    setCropRegions(regions);
+    saveCropRegions(regions);
+    if (id === activeCropId) {
+      setActiveCropId(null);
+      update({ exportCrop: null });
+    }
+  };
+
+  const pauseStream = () => {
+    send({ type: 'PAUSE' });
+    engine.pause();
+  };
+
+  const resumeStream = () => {
+    send({ type: 'RESUME' });
+    engine.resume();
+  };
 
   const saveCurrentBuffer = async () => {
-    if (frameBuffer.length === 0) {
+    if (engine.stats.bufferedFrameCount === 0) {
       toast({
         title: "No frames to save",
         description: "Start recording to build a frame buffer first.",
@@ -280,21 +407,19 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
       return;
     }
 
-    setIsSaving(true);
+    await saveVideo(filename => engine.exportRange({ filename, container: selectedContainer }));
+  };
+
+  const saveLastRecording = async () => {
+    if (!lastRecording) return;
+    await saveVideo(filename => engine.exportRecording(lastRecording, { filename, container: selectedContainer }));
+  };
+
+  const saveVideo = async (exportVideo: (filename: string) => Promise<VideoSaveResult>) => {
+    send({ type: 'SAVE_STARTED' });
     
     try {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const fileExtension = selectedContainer === 'mkv' ? 'mkv' : 
-                           selectedContainer === 'webm' ? 'webm' : 'mp4';
-      const filename = `workout-form-${timestamp}.${fileExtension}`;
-      
-      const result = await saveFramesAsVideo({
-        frames: frameBuffer,
-        fps: 10,
-        filename,
-        codec: selectedCodec,
-        container: selectedContainer
-      });
+      const result = await exportVideo(getExportFilename('workout-form', selectedContainer));
 
       const codecDisplayName = result.codec === 'av1' ? 'AV1' :
                               result.codec === 'hevc' ? 'HEVC' :
@@ -315,10 +440,79 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
         variant: "destructive"
       });
     } finally {
-      setIsSaving(false);
+      send({ type: 'SAVE_FINISHED' });
     }
   };
 
+  // Instant replay of the moments around now, from the button, the R key or a shutter remote
+  const captureReplay = useCallback(async () => {
+    if (engine.status === 'idle') return;
+
+    const { clipPreSeconds, clipPostSeconds } = engine.settings;
+    toast({
+      title: "Instant replay",
+      description: `Keeping ${clipPreSeconds}s before and ${clipPostSeconds}s after this moment.`,
+    });
+
+    try {
+      const clip = await engine.captureClip({
+        filename: getExportFilename('workout-replay', selectedContainer),
+        container: selectedContainer
+      });
+      if (!clip) {
+        toast({
+          title: "Replay cancelled",
+          description: "The camera stopped before the clip was complete.",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error capturing replay:', error);
+      toast({
+        title: "Error capturing replay",
+        description: "There was a problem saving the clip. Please try again.",
+        variant: "destructive"
+      });
+    }
+  }, [engine, selectedContainer, toast]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (event.repeat || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      // Bluetooth shutter remotes send volume-up
+      if (event.key === 'r' || event.key === 'R' || event.key === 'AudioVolumeUp') {
+        event.preventDefault();
+        captureReplay();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [captureReplay]);
+
+  // Everything needed to make sense of a stutter report, including the last minute of snapshots
+  const exportDiagnostics = () => {
+    const report = {
+      exportedAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      settings: {
+        ...settings,
+        resolution,
+        storedFrameSize,
+        codec: stats.activeCodec ?? selectedCodec,
+        memoryBudgetBytes
+      },
+      snapshots: diagnosticsHistoryRef.current
+    };
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(
+      new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }),
+      `delay-diagnostics-${timestamp}.json`
+    );
+  };
+
   // Initialize codec support and permissions check on mount
   useEffect(() => {
     const initialize = async () => {
@@ -337,21 +531,70 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
     };
   }, []);
 
-  // Update delay buffer when delay changes
+  // Refresh the diagnostics overlay once a second and keep a short history for export
   useEffect(() => {
-    if (isStreaming) {
-      // Clear existing intervals and restart with new timing
-      if (captureIntervalRef.current) {
-        clearInterval(captureIntervalRef.current);
-        captureIntervalRef.current = setInterval(captureFrame, 100);
-      }
-      
-      if (playbackIntervalRef.current) {
-        clearInterval(playbackIntervalRef.current);
-        playbackIntervalRef.current = setInterval(playDelayedFrames, 100);
-      }
+    if (!showDiagnostics || !isStreaming) {
+      setDiagnosticsSnapshot(null);
+      return;
     }
-  }, [delaySeconds, captureFrame, playDelayedFrames, isStreaming, isPaused]);
+
+    const snapshotInterval = setInterval(() => {
+      const snapshot = engine.getDiagnosticsSnapshot();
+      diagnosticsHistoryRef.current = [...diagnosticsHistoryRef.current, snapshot].slice(-DIAGNOSTICS_HISTORY_LENGTH);
+      setDiagnosticsSnapshot(snapshot);
+    }, 1000);
+
+    return () => clearInterval(snapshotInterval);
+  }, [showDiagnostics, isStreaming, engine]);
+
+  const storedFrameSize: FrameSize = stats.storedFrameSize ??
+    getStorageSize(CAMERA_FRAME_SIZES[resolution], storageScale);
+
+  // Measured once streaming, otherwise estimated from the current settings
+  const predictedBufferBytes = memoryUsage?.predictedBytes ??
+    predictBufferBytes(estimateFrameBytes(storedFrameSize, imageQuality, bufferMode === 'encoded'), frameRate, bufferSeconds);
+
+  // What a saved video will contain: encoded buffers are muxed as stored, image buffers are re-encoded
+  const exportQualityLabel = bufferMode === 'encoded'
+    ? `${storedFrameSize.width}×${storedFrameSize.height} compressed buffer`
+    : `${storedFrameSize.width}×${storedFrameSize.height} from ${imageFormat.toUpperCase()} ${Math.round(imageQuality * 100)}% frames`;
+
+  const maxDelaySeconds = Math.min(MAX_DELAY_SLIDER_SECONDS, getMaxDelaySeconds(settings));
+  const availableHistory = bufferedDuration + spilledDuration;
+
+  // The main view first; every view reads the same buffer at its own delay
+  const views = [
+    { id: MAIN_VIEW_ID, delaySeconds, label: viewLabels[MAIN_VIEW_ID] ?? 'Delayed View' },
+    ...extraViews.map((view, i) => ({ ...view, label: viewLabels[view.id] ?? `View ${i + 2}` }))
+  ];
+
+  // Not enough history yet for the view's delay
+  const isViewFilling = (viewDelaySeconds: number) => {
+    return recorder.status === 'streaming' && availableHistory < viewDelaySeconds * 1000;
+  };
+
+  const isViewRamping = (viewId: string, viewDelaySeconds: number) => {
+    const viewDelay = stats.viewDelays[viewId] ?? viewDelaySeconds * 1000;
+    return isStreaming && !isViewFilling(viewDelaySeconds) && Math.abs(viewDelay - viewDelaySeconds * 1000) > 100;
+  };
+
+  const addView = () => {
+    if (views.length >= MAX_VIEWS) return;
+    update({
+      extraViews: [
+        ...extraViews,
+        { id: `view-${crypto.randomUUID()}`, delaySeconds: Math.min(maxDelaySeconds, delaySeconds * 2) }
+      ]
+    });
+  };
+
+  const removeView = (viewId: string) => {
+    update({ extraViews: extraViews.filter(view => view.id !== viewId) });
+  };
+
+  const setViewDelay = (viewId: string, seconds: number) => {
+    update({ extraViews: extraViews.map(view => view.id === viewId ? { ...view, delaySeconds: seconds } : view) });
+  };
 
   // Get platform-aware codec info
   const getCodecMessage = () => {
@@ -363,14 +606,58 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
       <div className="space-y-3 sm:space-y-6">
         
         {/* Error/Permission Alerts */}
-        {errorMessage && (
+        {recorder.errorMessage && (
           <Alert variant="destructive">
             <AlertTriangle className="h-4 w-4" />
-            <AlertDescription>{errorMessage}</AlertDescription>
+            <AlertDescription>{recorder.errorMessage}</AlertDescription>
+          </Alert>
+        )}
+        
+        {/* Recovery of the previous session's buffer, after Stop or a reload */}
+        {lastRecording && !isStreaming && (
+          <Alert>
+            <History className="h-4 w-4" />
+            <AlertDescription>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:justify-between">
+                <span>
+                  Last recording: {formatDuration(lastRecording.entries[lastRecording.entries.length - 1].timestamp - lastRecording.entries[0].timestamp)} from {new Date(lastRecording.recordedAt).toLocaleTimeString()}
+                </span>
+                <div className="flex gap-2">
+                  <Button onClick={() => setIsReviewOpen(true)} variant="outline" size="sm">
+                    <Play className="w-4 h-4 mr-1" />
+                    Review
+                  </Button>
+                  <Button onClick={saveLastRecording} disabled={recorder.isSaving} variant="outline" size="sm">
+                    {recorder.isSaving ? (
+                      <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                      <Download className="w-4 h-4 mr-1" />
+                    )}
+                    Save
+                  </Button>
+                  <Button onClick={() => engine.discardLastRecording()} variant="ghost" size="sm">
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            </AlertDescription>
           </Alert>
         )}
+
+        {lastRecording && (
+          <RecordingReviewDialog
+            engine={engine}
+            recording={lastRecording}
+            open={isReviewOpen && !isStreaming}
+            onOpenChange={setIsReviewOpen}
+            isSaving={recorder.isSaving}
+            onSave={saveLastRecording}
+            transform={transform}
+          />
+        )}
         
-        {hasPermissions === false && !errorMessage && (
+        {recorder.permission === 'denied' && !recorder.errorMessage && (
           <Alert>
             <Info className="h-4 w-4" />
             <AlertDescription>
@@ -379,6 +666,15 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
           </Alert>
         )}
         
+        {isStreaming && !isPaused && measuredFps !== null && measuredFps < frameRate * FRAME_RATE_WARNING_RATIO && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              This device is only capturing {measuredFps} of {frameRate} FPS. Lower the frame rate or resolution for smoother playback.
+            </AlertDescription>
+          </Alert>
+        )}
+        
         {/* Codec info for advanced users */}
         {isStreaming && supportedCodecs.length > 0 && (
           <Alert>
@@ -390,77 +686,179 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
         )}
         {/* Video Display - Mobile Optimized */}
         <div className="space-y-3">
-          {/* Delayed Feed - Primary focus on mobile */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <h3 className="text-sm font-medium">
-                Delayed View ({delaySeconds}s)
-              </h3>
-              {currentDelayedFrame && (
-                <Button
-                  onClick={toggleFullscreen}
-                  variant="ghost"
-                  size="sm"
-                  className="h-6 w-6 p-0"
+          {/* Delayed Feeds - the main view leads on phones, views share a grid on tablets */}
+          <div className={cn("grid gap-3", views.length > 1 && "grid-cols-2")}>
+            {views.map((view) => {
+              const isMainView = view.id === MAIN_VIEW_ID;
+              const isFilling = isViewFilling(view.delaySeconds);
+              const fillProgress = (availableHistory / (view.delaySeconds * 1000)) * 100;
+
+              return (
+                <div
+                  key={view.id}
+                  className={cn(isMobile && isMainView && views.length > 1 && "col-span-2")}
                 >
-                  {isFullscreen ? (
-                    <Minimize className="w-3 h-3" />
-                  ) : (
-                    <Maximize className="w-3 h-3" />
-                  )}
-                </Button>
-              )}
-            </div>
-            <div 
-              ref={delayedContainerRef}
-              className={cn(
-                "relative bg-secondary rounded-lg overflow-hidden transition-smooth",
-                isFullscreen 
-                  ? "fixed inset-4 z-40 bg-black rounded-lg" 
-                  : "aspect-video"
-              )}
-            >
-              {currentDelayedFrame ? (
-                <img
-                  src={currentDelayedFrame}
-                  alt="Delayed feed"
-                  className="w-full h-full object-cover animate-fade-in"
-                />
-              ) : (
-                <div className="w-full h-full flex items-center justify-center">
-                  <div className="text-center space-y-2">
-                    <div className="w-12 h-12 sm:w-16 sm:h-16 mx-auto rounded-full bg-accent/20 flex items-center justify-center">
-                      <Settings className="w-6 h-6 sm:w-8 sm:h-8 text-accent animate-spin" />
-                    </div>
-                    <p className="text-muted-foreground text-xs sm:text-sm">
-                      {isStreaming && !isPaused
-                        ? frameBuffer.length > delaySeconds * 10 
-                          ? 'Delayed feed active'
-                          : 'Building delay buffer...'
-                        : isPaused 
-                          ? 'Feed paused'
-                          : 'Waiting for camera'
-                      }
-                    </p>
-                  </div>
-                </div>
-              )}
-              
-              {/* Fullscreen overlay controls */}
-              {isFullscreen && (
-                <div className="absolute top-4 right-4">
-                  <Button
-                    onClick={toggleFullscreen}
-                    variant="secondary"
-                    size="sm"
-                    className="bg-black/50 backdrop-blur-sm"
+                  <DelayedViewport
+                    engine={engine}
+                    viewId={view.id}
+                    label={view.label}
+                    delaySeconds={view.delaySeconds}
+                    effectiveDelay={stats.viewDelays[view.id] ?? 0}
+                    isRamping={isViewRamping(view.id, view.delaySeconds)}
+                    gap={playbackGaps[view.id] ?? null}
+                    isActive={isStreaming}
+                    isFrozen={isFrozen && !(isMainView && loop)}
+                    onionSkin={isMainView ? onionSkinLayer : undefined}
+                    transform={transform}
+                    zoom={viewZooms[view.id]}
+                    onZoomChange={(zoom) => setViewZooms(zooms => ({ ...zooms, [view.id]: zoom }))}
+                    pictureInPictureControls={
+                      <>
+                        <span className="text-xs tabular-nums">{view.label} • {view.delaySeconds}s</span>
+                        <Button onClick={isPaused ? resumeStream : pauseStream} variant="secondary" size="sm">
+                          {isPaused ? (
+                            <Play className="w-4 h-4 mr-1" />
+                          ) : (
+                            <Pause className="w-4 h-4 mr-1" />
+                          )}
+                          {isPaused ? 'Resume' : 'Pause'}
+                        </Button>
+                        <Button
+                          onClick={saveCurrentBuffer}
+                          variant="secondary"
+                          size="sm"
+                          disabled={recorder.isSaving || bufferedFrameCount === 0}
+                        >
+                          {recorder.isSaving ? (
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          ) : (
+                            <Download className="w-4 h-4 mr-1" />
+                          )}
+                          Save
+                        </Button>
+                      </>
+                    }
+                    footer={isMainView && (isPaused || isFrozen) && oldestTimestamp !== null && newestTimestamp !== null && (
+                      <div className="space-y-2">
+                        <TimelineScrubber
+                          engine={engine}
+                          viewId={view.id}
+                          start={oldestTimestamp}
+                          end={newestTimestamp}
+                          markers={views.map(({ id, label, delaySeconds }) => ({
+                            id,
+                            label,
+                            time: newestTimestamp - delaySeconds * 1000
+                          }))}
+                          loop={loop}
+                          onLoopChange={(window) => engine.setLoopWindow(window)}
+                        />
+                        {loop ? (
+                          <div className="flex items-center justify-center gap-1" role="group" aria-label="Loop speed">
+                            {LOOP_RATES.map(rate => (
+                              <Button
+                                key={rate}
+                                onClick={() => update({ loopRate: rate })}
+                                variant={loopRate === rate ? "secondary" : "ghost"}
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                aria-pressed={loopRate === rate}
+                              >
+                                {rate}x
+                              </Button>
+                            ))}
+                          </div>
+                        ) : (
+                          <ReviewControls engine={engine} reviewRate={reviewRate} />
+                        )}
+                      </div>
+                    )}
+                    headerActions={isMainView && stats.hasAudio && (
+                      <Button
+                        onClick={() => update({ audioMuted: !audioMuted })}
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        aria-label={audioMuted ? 'Unmute delayed audio' : 'Mute delayed audio'}
+                      >
+                        {audioMuted ? (
+                          <VolumeX className="w-3 h-3" />
+                        ) : (
+                          <Volume2 className="w-3 h-3" />
+                        )}
+                      </Button>
+                    )}
+                    placeholder={
+                      <div className="w-full h-full flex items-center justify-center">
+                        <div className="text-center space-y-2">
+                          <div className="w-12 h-12 sm:w-16 sm:h-16 mx-auto rounded-full bg-accent/20 flex items-center justify-center">
+                            <Settings className="w-6 h-6 sm:w-8 sm:h-8 text-accent animate-spin" />
+                          </div>
+                          <p className="text-muted-foreground text-xs sm:text-sm">
+                            {isStreaming && !isPaused
+                              ? isFilling
+                                ? `Filling to ${view.delaySeconds}s…`
+                                : 'Delayed feed active'
+                              : isPaused 
+                                ? 'Feed paused'
+                                : 'Waiting for camera'
+                            }
+                          </p>
+                          {isFilling && (
+                            <Progress value={fillProgress} className="h-1 w-32 mx-auto" />
+                          )}
+                        </div>
+                      </div>
+                    }
+                    frameOverlay={isFilling && (
+                      <div className="absolute bottom-2 left-2 right-2 pointer-events-none rounded bg-black/60 px-2 py-1 text-white space-y-1">
+                        <p className="text-xs">
+                          Filling to {view.delaySeconds}s… {(availableHistory / 1000).toFixed(1)}s
+                        </p>
+                        <Progress value={fillProgress} className="h-1" />
+                      </div>
+                    )}
                   >
-                    <Minimize className="w-4 h-4 mr-2" />
-                    Exit Fullscreen
-                  </Button>
+                    {/* Diagnostics HUD */}
+                    {isMainView && diagnosticsSnapshot && (
+                      <div className="absolute top-2 left-2 pointer-events-none rounded bg-black/60 px-2 py-1 font-mono text-[10px] leading-tight text-white space-y-0.5">
+                        <p>capture {diagnosticsSnapshot.captureFps} fps · playback {diagnosticsSnapshot.playbackFps} fps</p>
+                        <p>jitter {diagnosticsSnapshot.captureJitterMs.toFixed(1)} ms · dropped {diagnosticsSnapshot.droppedFrames}</p>
+                        <p>
+                          delay {diagnosticsSnapshot.actualDelayMs !== null ? `${(diagnosticsSnapshot.actualDelayMs / 1000).toFixed(2)}s` : '–'}
+                          {' '}/ {(diagnosticsSnapshot.requestedDelayMs / 1000).toFixed(2)}s requested
+                        </p>
+                        <p>
+                          buffer {diagnosticsSnapshot.bufferedFrames} fr · {diagnosticsSnapshot.bufferedSeconds.toFixed(1)}s · {formatBytes(diagnosticsSnapshot.bufferedBytes)}
+                        </p>
+                        {diagnosticsSnapshot.trackSettings && (
+                          <p>
+                            camera {diagnosticsSnapshot.trackSettings.width}×{diagnosticsSnapshot.trackSettings.height}
+                            {' '}@ {diagnosticsSnapshot.trackSettings.frameRate?.toFixed(0) ?? '?'} fps
+                            {diagnosticsSnapshot.trackSettings.facingMode && ` · ${diagnosticsSnapshot.trackSettings.facingMode}`}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* One tap anywhere on a looping view returns to the mirror */}
+                    {isMainView && loop && (
+                      <button
+                        type="button"
+                        onClick={() => unfreezeView('live')}
+                        className="absolute inset-0 flex items-end justify-start p-2"
+                        aria-label="Stop looping and return to the delayed mirror"
+                      >
+                        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-black/70 text-white text-xs">
+                          <Repeat className="w-3 h-3" />
+                          Looping at {loopRate}x • tap to return
+                        </span>
+                      </button>
+                    )}
+                  </DelayedViewport>
                 </div>
-              )}
-            </div>
+              );
+            })}
           </div>
 
           {/* Live Feed - Smaller on mobile */}
@@ -469,10 +867,13 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
             <div className="relative aspect-video sm:aspect-[4/3] bg-secondary rounded-lg overflow-hidden">
               <video
                 ref={liveVideoRef}
-                className="w-full h-full object-cover"
+                className={cn("w-full h-full", transform.fit === 'contain' ? "object-contain" : "object-cover")}
                 playsInline
                 muted
-                style={{ display: isStreaming && !isPaused ? 'block' : 'none' }}
+                style={{
+                  display: isStreaming && !isPaused ? 'block' : 'none',
+                  transform: getCssTransform(transform)
+                }}
               />
               {(!isStreaming || isPaused) && (
                 <div className="w-full h-full flex items-center justify-center">
@@ -494,9 +895,6 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
           </div>
         </div>
 
-        {/* Hidden canvas for frame capture */}
-        <canvas ref={delayedCanvasRef} style={{ display: 'none' }} />
-
         {/* Controls - Mobile Optimized */}
         <div className="space-y-3">
           {/* Camera Controls */}
@@ -507,27 +905,42 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                 variant="fitness"
                 size="lg"
                 className="w-full"
-                disabled={hasPermissions === false}
+                disabled={recorder.permission === 'denied' || recorder.status === 'requesting'}
               >
-                <Video className="w-4 h-4 mr-2" />
-                {hasPermissions === false ? 'Camera Access Required' : 'Start Camera'}
+                {recorder.status === 'requesting' ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Video className="w-4 h-4 mr-2" />
+                )}
+                {recorder.permission === 'denied' ? 'Camera Access Required' : 'Start Camera'}
               </Button>
             ) : (
-              <div className="grid grid-cols-3 gap-2 sm:gap-3">
+              <div className="grid grid-cols-4 gap-2 sm:gap-3">
+                <Button
+                  onClick={freezeView}
+                  variant={isFrozen ? "accent" : "secondary"}
+                  size="lg"
+                  disabled={!canSend(recorder, 'FREEZE')}
+                  title="Hold the delayed view while recording continues"
+                >
+                  <Snowflake className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">{isFrozen ? 'Frozen' : 'Freeze'}</span>
+                </Button>
                 <Button
                   onClick={isPaused ? resumeStream : pauseStream}
                   variant={isPaused ? "accent" : "secondary"}
                   size="lg"
+                  title={isPaused ? 'Resume recording and playback' : 'Stop recording and playback'}
                 >
                   {isPaused ? (
                     <>
-                      <Play className="w-4 h-4 mr-2" />
-                      Resume
+                      <Play className="w-4 h-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Resume</span>
                     </>
                   ) : (
                     <>
-                      <Pause className="w-4 h-4 mr-2" />
-                      Pause
+                      <Pause className="w-4 h-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Pause All</span>
                     </>
                   )}
                 </Button>
@@ -544,15 +957,81 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                   variant="destructive"
                   size="lg"
                 >
-                  <VideoOff className="w-4 h-4 mr-2" />
-                  Stop
+                  <VideoOff className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Stop</span>
+                </Button>
+              </div>
+            )}
+
+            {isStreaming && (
+              <div className="grid grid-cols-2 gap-2 sm:gap-3">
+                <Button
+                  onClick={captureReplay}
+                  variant="outline"
+                  size="sm"
+                  title="Save the moments around now as a clip (R)"
+                >
+                  <Clapperboard className="w-4 h-4 mr-2" />
+                  <span className="truncate">Replay −{clipPreSeconds}s / +{clipPostSeconds}s</span>
+                </Button>
+                <Button
+                  onClick={loop ? () => unfreezeView('live') : startLoop}
+                  variant={loop ? "accent" : "outline"}
+                  size="sm"
+                  disabled={!loop && isPaused}
+                  title={loop ? 'Return to the delayed mirror' : `Replay the last ${loopSeconds}s in slow motion while recording`}
+                >
+                  <Repeat className="w-4 h-4 mr-2" />
+                  <span className="truncate">{loop ? 'Back to Mirror' : `Loop Last ${loopSeconds}s`}</span>
+                </Button>
+              </div>
+            )}
+
+            {isStreaming && (
+              <ViewTransformControls transform={transform} onChange={updateTransform} />
+            )}
+
+            {/* Resume options after a freeze */}
+            {isFrozen && (
+              <div className="grid grid-cols-2 gap-2 sm:gap-3">
+                <Button onClick={() => unfreezeView('live')} variant="fitness" size="sm">
+                  <SkipForward className="w-4 h-4 mr-2" />
+                  Jump to Live Delay
+                </Button>
+                <Button onClick={() => unfreezeView('continue')} variant="outline" size="sm">
+                  <Play className="w-4 h-4 mr-2" />
+                  Continue From Here
                 </Button>
               </div>
             )}
           </div>
 
+          {/* Onion skin comparison over the main view */}
+          {isStreaming && (
+            <OnionSkinControls
+              settings={onionSkin}
+              pins={pins}
+              onChange={updateOnionSkin}
+              onPin={pinFrame}
+              onRemovePin={(id) => engine.removePin(id)}
+              canPin={newestTimestamp !== null}
+            />
+          )}
+
+          {/* Zoomed crops of the main view that exports can use */}
+          {isStreaming && (
+            <CropRegionControls
+              zoom={viewZooms[MAIN_VIEW_ID] ?? FULL_FRAME}
+              regions={cropRegions}
+              activeId={activeCropId}
+              onSave={saveCropRegion}
+              onSelect={selectCropRegion}
+              onRemove={removeCropRegion}
+            />
+          )}
+
           {/* Quick Settings - Always visible */}
-          <div className="grid grid-cols-2 gap-2 text-center">
+          <div className="grid grid-cols-3 gap-2 text-center">
             <div className="bg-secondary/50 rounded-lg p-2">
               <p className="text-xs text-muted-foreground">Delay</p>
               <p className="text-lg font-semibold text-accent">{delaySeconds}s</p>
@@ -560,6 +1039,21 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
             <div className="bg-secondary/50 rounded-lg p-2">
               <p className="text-xs text-muted-foreground">Quality</p>
               <p className="text-lg font-semibold text-primary">{resolution}</p>
+              <p className="text-xs text-muted-foreground">{frameRate} FPS</p>
+            </div>
+            <div className="bg-secondary/50 rounded-lg p-2">
+              <p className="text-xs text-muted-foreground">Memory</p>
+              <p className={cn(
+                "text-lg font-semibold",
+                predictedBufferBytes > memoryBudgetBytes ? "text-destructive" : "text-accent"
+              )}>
+                {memoryUsage ? '' : '~'}{formatBytes(predictedBufferBytes)}
+              </p>
+              <Progress
+                value={Math.min(100, (predictedBufferBytes / memoryBudgetBytes) * 100)}
+                className="h-1.5 mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">of {formatBytes(memoryBudgetBytes)}</p>
             </div>
           </div>
 
@@ -570,30 +1064,37 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                 "inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium transition-smooth",
                 isPaused 
                   ? "bg-fitness-warning/20 text-fitness-warning"
-                  : "bg-fitness-success/20 text-fitness-success"
+                  : isFrozen
+                    ? "bg-fitness-accent/20 text-fitness-accent"
+                    : "bg-fitness-success/20 text-fitness-success"
               )}>
                 <div className={cn(
                   "w-2 h-2 rounded-full transition-smooth",
                   isPaused 
                     ? "bg-fitness-warning"
-                    : "bg-fitness-success animate-pulse"
+                    : isFrozen
+                      ? "bg-fitness-accent animate-pulse"
+                      : "bg-fitness-success animate-pulse"
                 )} />
-                <span>{isPaused ? 'Paused' : 'Recording'}</span>
-                <span className="text-xs opacity-70">• {Math.round(frameBuffer.length / 10)}s</span>
+                <span>{isPaused ? 'Paused' : loop ? 'Looping • Recording' : isFrozen ? 'View frozen • Recording' : 'Recording'}</span>
+                <span className="text-xs opacity-70">• {Math.round(bufferedDuration / 1000)}s</span>
+                {spilledDuration > 0 && (
+                  <span className="text-xs opacity-70">+ {formatDuration(spilledDuration)} on disk</span>
+                )}
               </div>
             </div>
           )}
 
           {/* Save Controls */}
-          {frameBuffer.length > 0 && (
+          {bufferedFrameCount > 0 && (
             <Button
               onClick={saveCurrentBuffer}
               variant="outline"
               size="lg"
               className="w-full"
-              disabled={isSaving}
+              disabled={recorder.isSaving}
             >
-              {isSaving ? (
+              {recorder.isSaving ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                   Saving...
@@ -601,11 +1102,17 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
               ) : (
                 <>
                   <Download className="w-4 h-4 mr-2" />
-                  Save Video ({Math.round(frameBuffer.length / 10)}s)
+                  Save Video ({formatDuration(bufferedDuration + spilledDuration)})
                 </>
               )}
             </Button>
           )}
+          {bufferedFrameCount > 0 && (
+            <p className="text-xs text-muted-foreground text-center">Exports at {exportQualityLabel}</p>
+          )}
+
+          {/* Instant replays */}
+          <ReplayClipTray clips={clips} pendingCount={pendingClipCount} onRemove={(id) => engine.removeClip(id)} />
 
           {/* Advanced Settings - Collapsible */}
           <Collapsible open={showSettings} onOpenChange={setShowSettings}>
@@ -625,9 +1132,9 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                 <input
                   type="range"
                   min="1"
-                  max="30"
+                  max={maxDelaySeconds}
                   value={delaySeconds}
-                  onChange={(e) => setDelaySeconds(Number(e.target.value))}
+                  onChange={(e) => engine.setDelay(Number(e.target.value))}
                   className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
                     [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 
                     [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary 
@@ -635,8 +1142,140 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                 />
                 <div className="flex justify-between text-xs text-muted-foreground">
                   <span>1s</span>
-                  <span>30s</span>
+                  <span>{maxDelaySeconds}s</span>
                 </div>
+                {maxDelaySeconds < MAX_DELAY_SLIDER_SECONDS && (
+                  <p className="text-xs text-muted-foreground">
+                    The delay can't be longer than the {bufferSeconds}s buffer
+                  </p>
+                )}
+              </div>
+
+              {/* Delayed Views */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Delayed Views</label>
+                  <Button
+                    onClick={addView}
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
+                    disabled={views.length >= MAX_VIEWS}
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add View
+                  </Button>
+                </div>
+                {views.map((view) => {
+                  const isMainView = view.id === MAIN_VIEW_ID;
+                  return (
+                    <div key={view.id} className="space-y-2 rounded-lg border p-2">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={view.label}
+                          onChange={(e) => setViewLabels(labels => ({ ...labels, [view.id]: e.target.value }))}
+                          className="h-8 text-sm"
+                          aria-label="View label"
+                        />
+                        <span className="text-sm text-accent font-semibold shrink-0">{view.delaySeconds}s</span>
+                        {!isMainView && (
+                          <Button
+                            onClick={() => removeView(view.id)}
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 shrink-0"
+                            aria-label={`Remove ${view.label}`}
+                          >
+                            <X className="w-3 h-3" />
+                          </Button>
+                        )}
+                      </div>
+                      {!isMainView && (
+                        <input
+                          type="range"
+                          min="1"
+                          max={maxDelaySeconds}
+                          value={view.delaySeconds}
+                          onChange={(e) => setViewDelay(view.id, Number(e.target.value))}
+                          aria-label={`${view.label} delay`}
+                          className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
+                            [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 
+                            [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary 
+                            [&::-webkit-slider-thumb]:transition-smooth"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+                <p className="text-xs text-muted-foreground">
+                  Up to {MAX_VIEWS} views, each at its own delay. They all play from the same buffer, so extra views use no extra memory
+                </p>
+              </div>
+
+              {/* Instant Replay Window */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Instant Replay</label>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Before</span>
+                      <span>{clipPreSeconds}s</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="1"
+                      max={maxDelaySeconds}
+                      value={clipPreSeconds}
+                      onChange={(e) => update({ clipPreSeconds: Number(e.target.value) })}
+                      className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
+                        [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4
+                        [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-accent"
+                      aria-label="Seconds before the trigger"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>After</span>
+                      <span>{clipPostSeconds}s</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max={MAX_CLIP_POST_SECONDS}
+                      value={clipPostSeconds}
+                      onChange={(e) => update({ clipPostSeconds: Number(e.target.value) })}
+                      className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
+                        [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4
+                        [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-accent"
+                      aria-label="Seconds after the trigger"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Press R or a Bluetooth shutter remote to capture a clip without stopping the delayed view
+                </p>
+              </div>
+
+              {/* Slow-Motion Loop */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Loop Length</label>
+                  <span className="text-sm text-accent font-semibold">{loopSeconds}s</span>
+                </div>
+                <input
+                  type="range"
+                  min="1"
+                  max={Math.min(MAX_DELAY_SLIDER_SECONDS, maxDelaySeconds)}
+                  value={loopSeconds}
+                  onChange={(e) => update({ loopSeconds: Number(e.target.value) })}
+                  className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
+                    [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 
+                    [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-accent 
+                    [&::-webkit-slider-thumb]:transition-smooth"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Loops the last rep in slow motion while recording continues; drag the in/out handles on the timeline to adjust it
+                </p>
               </div>
 
               {/* Buffer Size Settings */}
@@ -648,9 +1287,9 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                 <input
                   type="range"
                   min="5"
-                  max="60"
+                  max={MAX_BUFFER_SECONDS[bufferMode]}
                   value={bufferSeconds}
-                  onChange={(e) => setBufferSeconds(Number(e.target.value))}
+                  onChange={(e) => update({ bufferSeconds: Number(e.target.value) })}
                   className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
                     [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 
                     [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-accent 
@@ -658,8 +1297,121 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                 />
                 <div className="flex justify-between text-xs text-muted-foreground">
                   <span>5s</span>
-                  <span>60s</span>
+                  <span>{MAX_BUFFER_SECONDS[bufferMode]}s</span>
+                </div>
+              </div>
+
+              {/* Buffer Storage Mode */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Buffer Storage</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    onClick={() => update({ bufferMode: 'encoded' })}
+                    variant={bufferMode === 'encoded' ? 'fitness' : 'outline'}
+                    size="sm"
+                    className="text-xs"
+                    disabled={isStreaming || !isWebCodecsSupported()}
+                    title={!isWebCodecsSupported() ? 'WebCodecs is not supported in this browser' : ''}
+                  >
+                    Compressed (up to 5 min)
+                  </Button>
+                  <Button
+                    onClick={() => update({ bufferMode: 'jpeg' })}
+                    variant={bufferMode === 'jpeg' ? 'fitness' : 'outline'}
+                    size="sm"
+                    className="text-xs"
+                    disabled={isStreaming}
+                  >
+                    JPEG frames
+                  </Button>
                 </div>
+                {isStreaming && (
+                  <p className="text-xs text-muted-foreground">Stop the camera to change buffer storage</p>
+                )}
+              </div>
+
+              {/* Session Buffer (disk) */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Session Buffer</label>
+                  <span className="text-sm text-accent font-semibold">
+                    {sessionMinutes > 0 ? `${sessionMinutes} min` : 'Off'}
+                  </span>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {SESSION_BUFFER_MINUTES.map((minutes) => (
+                    <Button
+                      key={minutes}
+                      onClick={() => update({ sessionMinutes: minutes })}
+                      variant={sessionMinutes === minutes ? 'fitness' : 'outline'}
+                      size="sm"
+                      className="text-xs"
+                      disabled={isStreaming || (minutes > 0 && !isOpfsSupported())}
+                      title={minutes > 0 && !isOpfsSupported() ? 'Disk storage is not supported in this browser' : ''}
+                    >
+                      {minutes > 0 ? `${minutes}m` : 'Off'}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Keeps older footage on disk for playback and saving; the live delay stays in memory
+                </p>
+              </div>
+
+              {/* Microphone */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label htmlFor="audio-toggle" className="text-sm font-medium flex items-center gap-2">
+                    <Mic className="w-3 h-3" />
+                    Microphone
+                  </label>
+                  <Switch
+                    id="audio-toggle"
+                    checked={audioEnabled}
+                    onCheckedChange={(checked) => update({ audioEnabled: checked })}
+                    disabled={isStreaming || !isAudioCaptureSupported()}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="audio-mute-toggle" className="text-sm font-medium">Play Delayed Audio</label>
+                  <Switch
+                    id="audio-mute-toggle"
+                    checked={!audioMuted}
+                    onCheckedChange={(checked) => update({ audioMuted: !checked })}
+                    disabled={!audioEnabled}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {isStreaming
+                    ? 'Stop the camera to turn the microphone on or off'
+                    : 'Records sound with the delayed video and saved clips; mute playback to avoid echoes in the room'}
+                </p>
+              </div>
+
+              {/* Background Capture */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">When Screen Is Off or Hidden</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    onClick={() => update({ backgroundCapture: 'pause' })}
+                    variant={backgroundCapture === 'pause' ? 'fitness' : 'outline'}
+                    size="sm"
+                    className="text-xs"
+                  >
+                    Pause capture
+                  </Button>
+                  <Button
+                    onClick={() => update({ backgroundCapture: 'continue' })}
+                    variant={backgroundCapture === 'continue' ? 'fitness' : 'outline'}
+                    size="sm"
+                    className="text-xs"
+                  >
+                    Keep capturing
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Browsers may still throttle capture in the background; missed time is marked as a gap
+                </p>
               </div>
 
               {/* Resolution Settings */}
@@ -685,6 +1437,101 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                 </div>
               </div>
 
+              {/* Frame Rate Selection */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Frame Rate</label>
+                  <span className="text-sm text-accent font-semibold">{frameRate} FPS</span>
+                </div>
+                <div className="grid grid-cols-5 gap-2">
+                  {FRAME_RATES.map((rate) => (
+                    <Button
+                      key={rate}
+                      onClick={() => update({ frameRate: rate })}
+                      variant={frameRate === rate ? 'fitness' : 'outline'}
+                      size="sm"
+                      className="text-xs"
+                    >
+                      {rate}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Stored Frame Size */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Stored Frame Size</label>
+                  <span className="text-sm text-accent font-semibold">
+                    {storedFrameSize.width}×{storedFrameSize.height}
+                  </span>
+                </div>
+                <div className="grid grid-cols-5 gap-2">
+                  {STORAGE_SCALES.map((scale) => (
+                    <Button
+                      key={scale.value}
+                      onClick={() => update({ storageScale: scale.value })}
+                      variant={storageScale === scale.value ? 'fitness' : 'outline'}
+                      size="sm"
+                      className="text-xs"
+                      disabled={isStreaming && bufferMode === 'encoded'}
+                    >
+                      {scale.label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Smaller stored frames save memory; the live feed stays at camera resolution
+                </p>
+              </div>
+
+              {/* Image Format and Quality (image buffer only) */}
+              {bufferMode === 'jpeg' && (
+                <>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Image Format</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(['jpeg', 'webp'] as const).map((format) => (
+                        <Button
+                          key={format}
+                          onClick={() => update({ imageFormat: format })}
+                          variant={imageFormat === format ? 'fitness' : 'outline'}
+                          size="sm"
+                          className="text-xs"
+                          disabled={format === 'webp' && !isWebPEncodingSupported()}
+                          title={format === 'webp' && !isWebPEncodingSupported() ? 'Not supported in this browser' : ''}
+                        >
+                          {format.toUpperCase()}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Image Quality</label>
+                      <span className="text-sm text-accent font-semibold">{Math.round(imageQuality * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="40"
+                      max="95"
+                      step="5"
+                      value={Math.round(imageQuality * 100)}
+                      onChange={(e) => update({ imageQuality: Number(e.target.value) / 100 })}
+                      className="w-full h-2 bg-secondary rounded-lg appearance-none cursor-pointer transition-smooth
+                        [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 
+                        [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary 
+                        [&::-webkit-slider-thumb]:transition-smooth"
+                    />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>40%</span>
+                      <span>95%</span>
+                    </div>
+                  </div>
+                </>
+              )}
+
               {/* Codec Selection */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Video Codec</label>
@@ -692,7 +1539,7 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                   {getSupportedCodecs().map((codec) => (
                     <Button
                       key={codec.value}
-                      onClick={() => setSelectedCodec(codec.value as any)}
+                      onClick={() => update({ codec: codec.value as any })}
                       variant={selectedCodec === codec.value ? 'fitness' : codec.supported ? 'outline' : 'secondary'}
                       size="sm"
                       className="text-xs"
@@ -737,8 +1584,29 @@ export const VideoRecorder: React.FC<VideoRecorderProps> = ({ className }) => {
                 </div>
               </div>
 
+              {/* Diagnostics */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label htmlFor="diagnostics-toggle" className="text-sm font-medium">Diagnostics Overlay</label>
+                  <Switch id="diagnostics-toggle" checked={showDiagnostics} onCheckedChange={setShowDiagnostics} />
+                </div>
+                <Button
+                  onClick={exportDiagnostics}
+                  variant="outline"
+                  size="sm"
+                  className="w-full text-xs"
+                  disabled={!showDiagnostics}
+                >
+                  <FileJson className="w-3 h-3 mr-2" />
+                  Export Stats (JSON)
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Shows capture and playback timing on the delayed view; attach the export to bug reports
+                </p>
+              </div>
+
               <p className="text-xs text-muted-foreground text-center">
-                Videos saved as {selectedCodec.toUpperCase()}/{selectedContainer.toUpperCase()} format
+                Videos saved as {selectedCodec.toUpperCase()}/{selectedContainer.toUpperCase()} format at {exportQualityLabel}
               </p>
             </CollapsibleContent>
           </Collapsible>
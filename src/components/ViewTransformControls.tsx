@@ -0,0 +1,53 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Expand, FlipHorizontal2, RotateCw, Shrink } from 'lucide-react';
+import { ROTATIONS, type FrameTransform } from '@/lib/frameTransform';
+
+interface ViewTransformControlsProps {
+  transform: FrameTransform;
+  onChange: (patch: Partial<FrameTransform>) => void;
+}
+
+// Mirror, rotate and fit for the current camera; applies to the live and delayed views alike
+export const ViewTransformControls: React.FC<ViewTransformControlsProps> = ({ transform, onChange }) => {
+  const rotateClockwise = () => {
+    onChange({ rotation: ROTATIONS[(ROTATIONS.indexOf(transform.rotation) + 1) % ROTATIONS.length] });
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2 sm:gap-3" role="group" aria-label="View transform">
+      <Button
+        onClick={() => onChange({ mirror: !transform.mirror })}
+        variant={transform.mirror ? "secondary" : "outline"}
+        size="sm"
+        aria-pressed={transform.mirror}
+        title="Flip the picture horizontally"
+      >
+        <FlipHorizontal2 className="w-4 h-4 mr-2" />
+        Mirror
+      </Button>
+      <Button
+        onClick={rotateClockwise}
+        variant={transform.rotation !== 0 ? "secondary" : "outline"}
+        size="sm"
+        title="Rotate a quarter turn clockwise"
+      >
+        <RotateCw className="w-4 h-4 mr-2" />
+        {transform.rotation}°
+      </Button>
+      <Button
+        onClick={() => onChange({ fit: transform.fit === 'cover' ? 'contain' : 'cover' })}
+        variant="outline"
+        size="sm"
+        title={transform.fit === 'cover' ? 'Show the whole frame' : 'Fill the view, cropping the edges'}
+      >
+        {transform.fit === 'cover' ? (
+          <Expand className="w-4 h-4 mr-2" />
+        ) : (
+          <Shrink className="w-4 h-4 mr-2" />
+        )}
+        {transform.fit === 'cover' ? 'Fill' : 'Fit'}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+  DelayEngine,
+  type DelayEngineSettings,
+  type DelayEngineStats,
+  type DelayEngineStatus,
+  type LoopWindow,
+  type PinnedFrame,
+  type ReplayClip,
+} from "@/lib/delayEngine"
+import type { BufferGap } from "@/lib/bufferGaps"
+import type { RecoveredRecording } from "@/lib/recordingJournal"
+
+interface UseDelayedMirrorOptions {
+  memoryBudgetBytes: number
+  settings?: Partial<DelayEngineSettings>
+}
+
+// Owns one DelayEngine for the component's lifetime and mirrors its state into React
+export function useDelayedMirror({ memoryBudgetBytes, settings: initialSettings }: UseDelayedMirrorOptions) {
+  const [engine] = useState(() => new DelayEngine({ memoryBudgetBytes, settings: initialSettings }))
+  const [status, setStatus] = useState<DelayEngineStatus>(engine.status)
+  const [settings, setSettings] = useState<DelayEngineSettings>(engine.settings)
+  const [stats, setStats] = useState<DelayEngineStats>(engine.stats)
+  // The gap each view is currently showing, by view id
+  const [gaps, setGaps] = useState<Record<string, BufferGap | null>>({})
+  // The previous session's buffer, kept after Stop or found after a reload
+  const [lastRecording, setLastRecording] = useState<RecoveredRecording | null>(null)
+  // Instant replays, newest first
+  const [clips, setClips] = useState<ReplayClip[]>([])
+  // Review playback speed while paused or frozen; negative plays in reverse
+  const [reviewRate, setReviewRate] = useState(0)
+  // The slow-motion loop's window while it runs
+  const [loop, setLoop] = useState<LoopWindow | null>(null)
+  // Onion-skin reference frames pinned this session
+  const [pins, setPins] = useState<PinnedFrame[]>([])
+
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on("status", setStatus),
+      engine.on("settings", setSettings),
+      engine.on("stats", setStats),
+      engine.on("gap", ({ viewId, gap }) => setGaps((current) => ({ ...current, [viewId]: gap }))),
+      engine.on("lastRecording", setLastRecording),
+      engine.on("clips", setClips),
+      engine.on("reviewRate", setReviewRate),
+      engine.on("loop", setLoop),
+      engine.on("pins", setPins),
+    ]
+    engine.loadLastRecording()
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+      engine.stop()
+    }
+  }, [engine])
+
+  const update = useCallback((patch: Partial<DelayEngineSettings>) => engine.update(patch), [engine])
+
+  return { engine, status, settings, stats, gaps, lastRecording, clips, reviewRate, loop, pins, update }
+}
@@ -0,0 +1,27 @@
+// A stretch of time with no captured frames, e.g. while the tab was hidden.
+// Times are capture timestamps in milliseconds (performance.now() clock).
+export interface BufferGap {
+  start: number;
+  end: number;
+}
+
+// Several frames even at the lowest frame rate; anything shorter is ordinary capture jitter
+const MIN_GAP_MS = 1000;
+
+export const isCaptureGap = (previousTimestamp: number, timestamp: number): boolean => {
+  return timestamp - previousTimestamp > MIN_GAP_MS;
+};
+
+// Gaps are appended in capture order, so a linear scan from the end finds recent ones fastest
+export const findGapAt = (gaps: BufferGap[], time: number): BufferGap | null => {
+  for (let i = gaps.length - 1; i >= 0; i--) {
+    if (gaps[i].start < time && time < gaps[i].end) return gaps[i];
+    if (gaps[i].end <= time) return null;
+  }
+  return null;
+};
+
+// Gaps that end before the oldest buffered frame no longer matter
+export const dropGapsBefore = (gaps: BufferGap[], oldestTimestamp: number): BufferGap[] => {
+  return gaps.filter(gap => gap.end > oldestTimestamp);
+};
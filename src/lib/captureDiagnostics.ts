@@ -0,0 +1,96 @@
+export interface CaptureTimingStats {
+  captureFps: number;
+  playbackFps: number;
+  // Standard deviation of the time between capture ticks, in milliseconds
+  captureJitterMs: number;
+  // Capture ticks that produced no buffered frame, since the last reset
+  droppedFrames: number;
+  // How far behind capture the last drawn delayed frame was, in milliseconds
+  actualDelayMs: number | null;
+}
+
+export interface DiagnosticsSnapshot extends CaptureTimingStats {
+  // Wall-clock time of the snapshot, for lining up with other logs
+  time: string;
+  requestedDelayMs: number;
+  bufferedFrames: number;
+  bufferedSeconds: number;
+  bufferedBytes: number;
+  trackSettings: MediaTrackSettings | null;
+}
+
+// Rates are measured over the last second; jitter over a slightly longer window so it's stable
+const RATE_WINDOW_MS = 1000;
+const JITTER_WINDOW_MS = 3000;
+
+const trimBefore = (times: number[], cutoff: number) => {
+  let index = 0;
+  while (index < times.length && times[index] < cutoff) {
+    index++;
+  }
+  if (index > 0) {
+    times.splice(0, index);
+  }
+};
+
+const countSince = (times: number[], cutoff: number) => {
+  return times.filter(time => time >= cutoff).length;
+};
+
+/**
+ * Collects capture and playback timings for the diagnostics overlay. Recording is
+ * cheap (an array push) so it can run on every capture tick and animation frame.
+ */
+export class CaptureDiagnostics {
+  private tickTimes: number[] = [];
+  private captureTimes: number[] = [];
+  private drawTimes: number[] = [];
+  private dropped = 0;
+  private lastDelay: number | null = null;
+
+  // A capture interval fired; whether it produced a frame is recorded separately
+  recordTick(time: number): void {
+    this.tickTimes.push(time);
+    trimBefore(this.tickTimes, time - JITTER_WINDOW_MS);
+  }
+
+  recordCapture(time: number): void {
+    this.captureTimes.push(time);
+    trimBefore(this.captureTimes, time - RATE_WINDOW_MS);
+  }
+
+  recordDrop(): void {
+    this.dropped++;
+  }
+
+  // A delayed frame captured at `frameTimestamp` was drawn at `time`
+  recordDraw(time: number, frameTimestamp: number): void {
+    this.drawTimes.push(time);
+    trimBefore(this.drawTimes, time - RATE_WINDOW_MS);
+    this.lastDelay = time - frameTimestamp;
+  }
+
+  getStats(now: number): CaptureTimingStats {
+    const cutoff = now - RATE_WINDOW_MS;
+
+    const intervals = this.tickTimes.slice(1).map((time, i) => time - this.tickTimes[i]);
+    const mean = intervals.reduce((total, interval) => total + interval, 0) / (intervals.length || 1);
+    const variance = intervals.reduce((total, interval) => total + (interval - mean) ** 2, 0) / (intervals.length || 1);
+
+    return {
+      captureFps: countSince(this.captureTimes, cutoff),
+      playbackFps: countSince(this.drawTimes, cutoff),
+      captureJitterMs: Math.sqrt(variance),
+      droppedFrames: this.dropped,
+      actualDelayMs: this.lastDelay
+    };
+  }
+
+  reset(): void {
+    this.tickTimes = [];
+    this.captureTimes = [];
+    this.drawTimes = [];
+    this.dropped = 0;
+    this.lastDelay = null;
+  }
+}
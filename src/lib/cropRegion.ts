@@ -0,0 +1,101 @@
+import type { FrameSize } from '@/lib/frameStorage';
+
+// Part of a frame, as fractions of its width and height, measured after the frame's transform
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A crop the user named so it can be picked again, and applied to exports
+export interface CropRegion {
+  id: string;
+  name: string;
+  rect: CropRect;
+}
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// How far a view can zoom in
+export const MAX_ZOOM = 8;
+
+const STORAGE_KEY = 'crop-regions';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const isFullFrame = (rect: CropRect): boolean => {
+  return rect.width >= 1 && rect.height >= 1;
+};
+
+// Magnification of a crop, e.g. 2 when it shows half the frame's width
+export const getZoomFactor = (rect: CropRect): number => {
+  return 1 / rect.width;
+};
+
+// Keeps the rectangle inside the frame and no smaller than MAX_ZOOM allows
+export const clampCrop = (rect: CropRect): CropRect => {
+  const width = clamp(rect.width, 1 / MAX_ZOOM, 1);
+  const height = clamp(rect.height, 1 / MAX_ZOOM, 1);
+  return {
+    x: clamp(rect.x, 0, 1 - width),
+    y: clamp(rect.y, 0, 1 - height),
+    width,
+    height
+  };
+};
+
+/**
+ * Zooms in by `factor` (below 1 zooms out), keeping the frame point at
+ * (`focusX`, `focusY`) where it is on screen. Both sides scale together so
+ * the crop keeps the frame's shape.
+ */
+export const zoomCrop = (rect: CropRect, factor: number, focusX: number, focusY: number): CropRect => {
+  const scale = clamp(rect.width / factor, 1 / MAX_ZOOM, 1) / rect.width;
+  return clampCrop({
+    x: focusX - (focusX - rect.x) * scale,
+    y: focusY - (focusY - rect.y) * scale,
+    width: rect.width * scale,
+    height: rect.height * scale
+  });
+};
+
+// Moves the crop by a fraction of the frame
+export const panCrop = (rect: CropRect, dx: number, dy: number): CropRect => {
+  return clampCrop({ ...rect, x: rect.x + dx, y: rect.y + dy });
+};
+
+// Pixel size of the cropped part of a frame, rounded to even sides for video encoders
+export const getCroppedSize = (size: FrameSize, rect: CropRect): FrameSize => {
+  return {
+    width: Math.max(2, Math.round((size.width * rect.width) / 2) * 2),
+    height: Math.max(2, Math.round((size.height * rect.height) / 2) * 2)
+  };
+};
+
+/**
+ * Scales and moves the context so that drawing the whole `frame`-sized image
+ * fills `canvas` with just the cropped part. The image's own pixels are
+ * sampled, so zooming in shows real detail rather than an enlarged canvas.
+ * Callers save and restore the context around it.
+ */
+export const applyCrop = (ctx: CanvasRenderingContext2D, rect: CropRect, frame: FrameSize, canvas: FrameSize) => {
+  ctx.scale(canvas.width / (rect.width * frame.width), canvas.height / (rect.height * frame.height));
+  ctx.translate(-rect.x * frame.width, -rect.y * frame.height);
+};
+
+export const loadCropRegions = (): CropRegion[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveCropRegions = (regions: CropRegion[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(regions));
+  } catch (error) {
+    console.error('Error saving crop regions:', error);
+  }
+};
@@ -0,0 +1,1909 @@
+import { FrameRingBuffer, createCapturedFrame, type CapturedFrame } from '@/lib/frameRingBuffer';
+import {
+  EncodedFrameBuffer,
+  DecodeCursor,
+  isWebCodecsSupported,
+  chunkToBlob,
+  chunkFromBlob,
+  decodeLastFrame,
+  type EncodedBufferCodec
+} from '@/lib/encodedFrameBuffer';
+import { OpfsSegmentStore, type SpilledEntry } from '@/lib/opfsSegmentStore';
+import { WorkerFrameEncoder, isWorkerCaptureSupported } from '@/lib/frameCapture';
+import { CaptureDiagnostics, type DiagnosticsSnapshot } from '@/lib/captureDiagnostics';
+import { isCaptureGap, findGapAt, dropGapsBefore, type BufferGap } from '@/lib/bufferGaps';
+import { DelayedAudio, isAudioCaptureSupported, type AudioTrackData } from '@/lib/delayedAudio';
+import { RecordingJournal, trimToFirstKeyFrame, type RecordingInfo, type RecoveredRecording } from '@/lib/recordingJournal';
+import { predictBufferBytes, planDegradation, type DegradationStep } from '@/lib/memoryBudget';
+import { IMAGE_MIME_TYPES, getStorageSize, type FrameSize, type ImageFormat, type StorageScale } from '@/lib/frameStorage';
+import { DEFAULT_FRAME_TRANSFORM, getTransformAt, type FrameTransform, type TransformSegment } from '@/lib/frameTransform';
+import { clampCrop, type CropRect } from '@/lib/cropRegion';
+import {
+  saveFramesAsVideo,
+  saveEncodedChunksAsVideo,
+  muxEncodedChunks,
+  type EncodedVideoSaveOptions,
+  type VideoSaveResult
+} from '@/lib/videoUtils';
+
+// 'encoded' keeps WebCodecs chunks, 'jpeg' keeps one image per frame where WebCodecs is missing
+export type BufferMode = 'encoded' | 'jpeg';
+
+export const MAX_BUFFER_SECONDS: Record<BufferMode, number> = {
+  encoded: 300,
+  jpeg: 60
+};
+
+// What happens to capture while the page is hidden (screen off, app switched)
+export type BackgroundCapture = 'pause' | 'continue';
+
+// 'frozen' stops playback on the current frame while capture keeps filling the buffer
+export type DelayEngineStatus = 'idle' | 'running' | 'frozen' | 'paused';
+
+// Where playback picks up after a freeze: back at the requested delay, or from the frozen frame
+export type UnfreezeMode = 'live' | 'continue';
+
+// Step sizes for reviewing a held view
+export type StepUnit = 'frame' | 'second';
+
+export type LoopRate = 0.25 | 0.5 | 1;
+
+// Stretch of the buffer replayed by the loop, as capture timestamps
+export interface LoopWindow {
+  start: number;
+  end: number;
+}
+
+// A further delayed viewport reading the same buffer
+export interface ExtraViewSettings {
+  id: string;
+  delaySeconds: number;
+}
+
+// The view whose delay is `delaySeconds`; audio and diagnostics follow it
+export const MAIN_VIEW_ID = 'main';
+
+// Hidden view trailing the main one for the onion skin's 'offset' source
+export const GHOST_VIEW_ID = 'main-ghost';
+
+// What the onion skin blends over the main view: a pinned frame, the frame
+// `offsetSeconds` earlier, or the live camera
+export type OnionSkinSource = 'pinned' | 'offset' | 'live';
+
+export type OnionSkinBlend = 'normal' | 'difference';
+
+export interface OnionSkinSettings {
+  enabled: boolean;
+  source: OnionSkinSource;
+  pinId: string | null;
+  offsetSeconds: number;
+  // 0 to 1
+  opacity: number;
+  blend: OnionSkinBlend;
+}
+
+// A frame kept for comparison until the session stops
+export interface PinnedFrame {
+  id: string;
+  // Capture time in milliseconds
+  timestamp: number;
+  image: ImageBitmap;
+}
+
+export const MAX_VIEWS = 4;
+
+export interface DelayEngineSettings {
+  delaySeconds: number;
+  // Up to MAX_VIEWS - 1 views beside the main one
+  extraViews: ExtraViewSettings[];
+  bufferSeconds: number;
+  frameRate: number;
+  bufferMode: BufferMode;
+  // Older history spilled to disk; 0 keeps everything in memory only
+  sessionMinutes: number;
+  storageScale: StorageScale;
+  imageFormat: ImageFormat;
+  imageQuality: number;
+  // Preferred codec for the encoded buffer
+  codec: EncodedBufferCodec;
+  backgroundCapture: BackgroundCapture;
+  // Replay the microphone along with the video; the stream needs an audio track when starting
+  audioEnabled: boolean;
+  // Keeps recording audio for exports but stops playing it back
+  audioMuted: boolean;
+  // Instant-replay window around the trigger, in seconds
+  clipPreSeconds: number;
+  clipPostSeconds: number;
+  // Length and speed of the slow-motion loop of the last rep
+  loopSeconds: number;
+  loopRate: LoopRate;
+  // Reference frame blended over the main view
+  onionSkin: OnionSkinSettings;
+  // The current camera's mirroring, rotation and fit. Frames are stored as captured;
+  // views draw them through this and exports bake it in.
+  transform: FrameTransform;
+  // Part of the transformed frame that exports keep; null keeps all of it
+  exportCrop: CropRect | null;
+}
+
+export interface DelayEngineStats {
+  bufferedFrameCount: number;
+  // Milliseconds held in memory, and on disk beyond that
+  bufferedDuration: number;
+  spilledDuration: number;
+  // Frames delivered over the last second, null until measured
+  measuredFps: number | null;
+  memoryUsage: { usedBytes: number; predictedBytes: number } | null;
+  cameraSize: FrameSize | null;
+  storedFrameSize: FrameSize | null;
+  // Codec the encoded buffer actually uses, once configured
+  activeCodec: EncodedBufferCodec | null;
+  // Delay currently shown, in milliseconds; trails `delaySeconds` while ramping or filling
+  effectiveDelay: number;
+  // The same for every view, by view id
+  viewDelays: Record<string, number>;
+  // Whether microphone audio is being delayed and recorded
+  hasAudio: boolean;
+  // Instant replays still waiting for their post-trigger window
+  pendingClipCount: number;
+  // Capture timestamps spanned by the buffer, on disk and in memory
+  oldestTimestamp: number | null;
+  newestTimestamp: number | null;
+}
+
+// A delayed frame ready to draw. `source` is only valid while the listener runs.
+export interface DelayedFrame {
+  viewId: string;
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  timestamp: number;
+}
+
+export interface DelayEngineEvents {
+  status: DelayEngineStatus;
+  settings: DelayEngineSettings;
+  stats: DelayEngineStats;
+  frame: DelayedFrame;
+  // The gap a view's playback is currently inside, or null once it is past it
+  gap: { viewId: string; gap: BufferGap | null };
+  degraded: DegradationStep;
+  // The encoded buffer was given up for JPEG frames; carries a user-facing reason
+  fallback: string;
+  sessionBufferUnavailable: void;
+  audioUnavailable: void;
+  // The previous session's buffer became available for recovery, or was discarded
+  lastRecording: RecoveredRecording | null;
+  // The recent-clips tray, newest first
+  clips: ReplayClip[];
+  // Review playback speed of a held view; negative plays in reverse, 0 is stopped
+  reviewRate: number;
+  // The window being looped, or null when the loop ends
+  loop: LoopWindow | null;
+  // Frames pinned for the onion skin, oldest first
+  pins: PinnedFrame[];
+  error: Error;
+}
+
+export interface ExportRangeOptions {
+  // Capture timestamps in milliseconds; the whole buffer when omitted
+  from?: number;
+  to?: number;
+  filename: string;
+  container: 'mp4' | 'mkv' | 'webm';
+  // Set to false to only get the file back in the result
+  download?: boolean;
+}
+
+export interface RecordingExportOptions {
+  filename: string;
+  container: 'mp4' | 'mkv' | 'webm';
+}
+
+export interface ClipCaptureOptions {
+  filename: string;
+  container: 'mp4' | 'mkv' | 'webm';
+}
+
+// An instant replay kept in memory until it's saved or removed
+export interface ReplayClip {
+  id: string;
+  blob: Blob;
+  filename: string;
+  codec: string;
+  container: string;
+  // Wall-clock time of the trigger
+  triggeredAt: number;
+  // Milliseconds of video, which can be shorter than the window early in a session
+  duration: number;
+}
+
+export interface DelayEngineOptions {
+  settings?: Partial<DelayEngineSettings>;
+  memoryBudgetBytes: number;
+}
+
+export const DEFAULT_DELAY_ENGINE_SETTINGS: DelayEngineSettings = {
+  delaySeconds: 6,
+  extraViews: [],
+  bufferSeconds: 15,
+  frameRate: 10,
+  bufferMode: 'encoded',
+  sessionMinutes: 0,
+  storageScale: 'full',
+  imageFormat: 'jpeg',
+  imageQuality: 0.8,
+  codec: 'av1',
+  backgroundCapture: 'pause',
+  audioEnabled: false,
+  audioMuted: false,
+  clipPreSeconds: 10,
+  clipPostSeconds: 5,
+  loopSeconds: 5,
+  loopRate: 0.5,
+  onionSkin: {
+    enabled: false,
+    source: 'offset',
+    pinId: null,
+    offsetSeconds: 0.5,
+    opacity: 0.5,
+    blend: 'normal'
+  },
+  transform: DEFAULT_FRAME_TRANSFORM,
+  exportCrop: null
+};
+
+// Range of the onion skin's offset, in seconds
+export const MIN_ONION_SKIN_OFFSET_SECONDS = 0.1;
+export const MAX_ONION_SKIN_OFFSET_SECONDS = 5;
+
+
+// Longest post-trigger window; the clip tray only fills once it has passed
+export const MAX_CLIP_POST_SECONDS = 30;
+
+// Oldest clips are dropped beyond this, since each one is held in memory
+export const MAX_REPLAY_CLIPS = 8;
+
+// Extra wait after the post-trigger window for the last frames to reach the buffer
+const CLIP_SETTLE_MS = 500;
+
+// Stats that change with every captured frame reach the UI at most this often
+const STATS_THROTTLE_MS = 250;
+
+// Review playback speeds, slowest first
+export const REVIEW_RATES = [0.1, 0.25, 0.5, 1, 2] as const;
+
+export const LOOP_RATES: LoopRate[] = [0.25, 0.5, 1];
+
+// Shortest loop the in/out handles can make
+const MIN_LOOP_DURATION_MS = 500;
+
+// Index of the timestamp closest to `time` in a sorted list
+const findNearestIndex = (timestamps: number[], time: number): number => {
+  let low = 0;
+  let high = timestamps.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (timestamps[middle] < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  if (low > 0 && time - timestamps[low - 1] < timestamps[low] - time) {
+    return low - 1;
+  }
+  return low;
+};
+
+// Give the buffer time to fill with frames at the new settings before degrading again
+const DEGRADATION_COOLDOWN_MS = 3000;
+
+// Delay changes are played out at up to half a second per second, i.e. between 0.5x and 1.5x speed
+const MAX_DELAY_RAMP_RATE = 0.5;
+
+// The delay can't reach further back than the buffer holds
+export const getMaxDelaySeconds = (settings: Pick<DelayEngineSettings, 'bufferSeconds' | 'sessionMinutes'>): number => {
+  return settings.bufferSeconds + settings.sessionMinutes * 60;
+};
+
+type Listener<T> = (payload: T) => void;
+
+// Held frames are usually on disk as well; keeps one of each, oldest first
+const mergeByTimestamp = <T extends { timestamp: number }>(...lists: T[][]): T[] => {
+  const byTimestamp = new Map<number, T>();
+  lists.flat().forEach(item => {
+    if (!byTimestamp.has(item.timestamp)) byTimestamp.set(item.timestamp, item);
+  });
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Playback position of one delayed view
+interface ViewPlayback {
+  id: string;
+  // Delay being ramped toward the view's target, and the delay actually shown
+  rampedDelay: number | null;
+  effectiveDelay: number;
+  // Identity of the frame last emitted, to skip redundant draws; frames read back
+  // from disk are identified by their timestamp
+  lastDrawnFrame: CapturedFrame | VideoFrame | number | null;
+  lastFrameTimestamp: number | null;
+  activeGap: BufferGap | null;
+  isReadingSpilledFrame: boolean;
+  // Each view decodes the encoded buffer on its own
+  cursor: DecodeCursor | null;
+}
+
+const createViewPlayback = (id: string): ViewPlayback => ({
+  id,
+  rampedDelay: null,
+  effectiveDelay: 0,
+  lastDrawnFrame: null,
+  lastFrameTimestamp: null,
+  activeGap: null,
+  isReadingSpilledFrame: false,
+  cursor: null
+});
+
+/**
+ * Headless delayed-mirror pipeline: captures frames from a MediaStream into a
+ * memory buffer (optionally spilling to disk), plays them back `delaySeconds`
+ * late on every animation frame and exports any range as a video. It owns no
+ * UI; consumers listen for `frame` events and draw them wherever they like.
+ */
+export class DelayEngine {
+  private currentSettings: DelayEngineSettings;
+  private currentStatus: DelayEngineStatus = 'idle';
+  private listeners = new Map<keyof DelayEngineEvents, Set<Listener<unknown>>>();
+  private memoryBudgetBytes: number;
+
+  private video: HTMLVideoElement | null = null;
+  private captureCanvas: HTMLCanvasElement | null = null;
+  private frameBuffer: FrameRingBuffer<CapturedFrame>;
+  // Only set while running in 'encoded' mode; capture and playback use it when present
+  private encodedBuffer: EncodedFrameBuffer | null = null;
+  // Only set while a session buffer is active; receives whatever the in-memory buffer evicts
+  private spillStore: OpfsSegmentStore | null = null;
+  // JPEG compression worker; when missing, frames are compressed on the main thread
+  private workerEncoder: WorkerFrameEncoder | null = null;
+  // Only set while running with the microphone on
+  private delayedAudio: DelayedAudio | null = null;
+  // Opened on first use; null where IndexedDB is unavailable
+  private journal: Promise<RecordingJournal | null> | null = null;
+  private isJournaling = false;
+  // The last session's buffer, kept after Stop until a new session starts
+  private lastRecording: RecoveredRecording | null = null;
+  // Instant replays, newest first; they outlive the session that captured them
+  private clips: ReplayClip[] = [];
+  // Cancels for clips waiting on their post-trigger window
+  private pendingClips = new Set<() => void>();
+  // Latest time asked for while scrubbing; older requests are skipped while a frame decodes
+  private seekTarget: number | null = null;
+  private isSeeking = false;
+  // Where a held view was last sent, ahead of the frame actually being decoded
+  private reviewTime: number | null = null;
+  private reviewRate = 0;
+  private reviewFrame: number | null = null;
+  private loop: LoopWindow | null = null;
+  // What was in memory when the loop started, kept from eviction until the loop ends
+  private loopHold: (LoopWindow & { release: () => void }) | null = null;
+  private pins: PinnedFrame[] = [];
+
+  private captureInterval: ReturnType<typeof setInterval> | null = null;
+  private monitorInterval: ReturnType<typeof setInterval> | null = null;
+  private statsTimeout: ReturnType<typeof setTimeout> | null = null;
+  private cancelPlaybackFrame: (() => void) | null = null;
+  // One per camera used this session, so frames keep the transform of the camera that captured them
+  private transformSegments: TransformSegment[] = [];
+  // Views shown in Picture-in-Picture, each with its Document Picture-in-Picture window if it has one
+  private pictureInPictureViews = new Map<string, Window | null>();
+
+  // The main view first, then the extra views in settings order
+  private views: ViewPlayback[] = [createViewPlayback(MAIN_VIEW_ID)];
+
+  // Stretches of the buffer with no frames, oldest first; playback shows them instead of jumping
+  private gaps: BufferGap[] = [];
+  private lastCaptureTime: number | null = null;
+  // Set while capture is stopped because the page is hidden
+  private hiddenAt: number | null = null;
+
+  // When the last playback step ran
+  private lastPlaybackTime: number | null = null;
+
+  private lastDegradation = -Infinity;
+  private measuredFps: number | null = null;
+  private memoryUsage: DelayEngineStats['memoryUsage'] = null;
+  private cameraSize: FrameSize | null = null;
+
+  readonly diagnostics = new CaptureDiagnostics();
+
+  constructor(options: DelayEngineOptions) {
+    this.currentSettings = {
+      ...DEFAULT_DELAY_ENGINE_SETTINGS,
+      bufferMode: isWebCodecsSupported() ? 'encoded' : 'jpeg',
+      ...options.settings
+    };
+    this.memoryBudgetBytes = options.memoryBudgetBytes;
+    this.syncViews();
+
+    const { bufferSeconds, frameRate } = this.currentSettings;
+    this.frameBuffer = new FrameRingBuffer<CapturedFrame>(bufferSeconds * frameRate, (frame) => {
+      this.spillStore?.append({ timestamp: frame.timestamp, type: 'key', data: frame.blob });
+    });
+  }
+
+  get status(): DelayEngineStatus {
+    return this.currentStatus;
+  }
+
+  get settings(): DelayEngineSettings {
+    return this.currentSettings;
+  }
+
+  get stats(): DelayEngineStats {
+    const encodedBuffer = this.encodedBuffer;
+    return {
+      bufferedFrameCount: encodedBuffer ? encodedBuffer.length : this.frameBuffer.length,
+      bufferedDuration: encodedBuffer ? encodedBuffer.duration : this.frameBuffer.duration,
+      spilledDuration: this.spillStore?.duration ?? 0,
+      measuredFps: this.measuredFps,
+      memoryUsage: this.memoryUsage,
+      cameraSize: this.cameraSize,
+      storedFrameSize: this.storedFrameSize,
+      activeCodec: encodedBuffer?.codec ?? null,
+      effectiveDelay: this.views[0].effectiveDelay,
+      viewDelays: Object.fromEntries(this.views.map(view => [view.id, view.effectiveDelay])),
+      hasAudio: this.delayedAudio !== null,
+      pendingClipCount: this.pendingClips.size,
+      oldestTimestamp: this.oldestTimestamp,
+      newestTimestamp: this.newestTimestamp
+    };
+  }
+
+  // Oldest capture timestamp still available, on disk or in memory
+  get oldestTimestamp(): number | null {
+    return this.spillStore?.oldestTimestamp ?? this.memoryOldestTimestamp;
+  }
+
+  get newestTimestamp(): number | null {
+    return this.encodedBuffer ? this.encodedBuffer.newestTimestamp : this.frameBuffer.newest()?.timestamp ?? null;
+  }
+
+  on<K extends keyof DelayEngineEvents>(event: K, listener: Listener<DelayEngineEvents[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    const untypedListener = listener as Listener<unknown>;
+    listeners.add(untypedListener);
+    return () => listeners.delete(untypedListener);
+  }
+
+  async start(stream: MediaStream): Promise<void> {
+    if (this.currentStatus !== 'idle') return;
+
+    // A new session replaces whatever was kept from the last one
+    this.setLastRecording(null);
+    this.transformSegments = [{ from: -Infinity, transform: this.currentSettings.transform }];
+    await this.setStream(stream);
+
+    if (this.currentSettings.sessionMinutes > 0) {
+      await this.startSpillStore();
+    }
+
+    if (this.currentSettings.bufferMode === 'encoded') {
+      await this.startEncodedBuffer();
+    } else {
+      this.startWorkerEncoder();
+    }
+
+    if (this.currentSettings.audioEnabled) {
+      await this.startDelayedAudio(stream);
+    }
+    await this.beginJournal();
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.monitorInterval = setInterval(() => this.monitor(), 1000);
+    this.setStatus('running');
+    this.startLoops();
+    this.emitStats();
+  }
+
+  // Swaps the camera feeding the buffer (e.g. front/back) without clearing it
+  // Switching cameras mid-session starts a transform segment; update the transform after this to set the new camera's
+  async setStream(stream: MediaStream): Promise<void> {
+    if (this.currentStatus !== 'idle') {
+      this.transformSegments = [...this.transformSegments, { from: performance.now(), transform: this.currentSettings.transform }];
+    }
+    if (!this.video) {
+      this.video = document.createElement('video');
+      this.video.muted = true;
+      this.video.playsInline = true;
+    }
+    this.video.srcObject = stream;
+    this.delayedAudio?.setStream(stream);
+    await this.video.play();
+    this.cameraSize = { width: this.video.videoWidth, height: this.video.videoHeight };
+    this.emitStats();
+  }
+
+  // Holds the delayed view on its current frame; capture carries on
+  freeze(): void {
+    if (this.currentStatus !== 'running') return;
+    this.stopPlayback();
+    this.delayedAudio?.setSilenced(true);
+    this.setStatus('frozen');
+  }
+
+  unfreeze(mode: UnfreezeMode): void {
+    if (this.currentStatus !== 'frozen') return;
+    this.endReview();
+    const now = performance.now();
+    this.views.forEach(view => {
+      if (mode === 'live') {
+        view.rampedDelay = this.getTargetDelay(view);
+      } else if (view.lastFrameTimestamp !== null) {
+        // The frozen frame is now further back than the requested delay; playback ramps back to it
+        view.rampedDelay = now - view.lastFrameTimestamp;
+      }
+    });
+    this.setStatus('running');
+    if (this.hiddenAt === null) {
+      this.startPlayback();
+    }
+  }
+
+  // Stops capture and playback
+  pause(): void {
+    if (!this.isCapturing) return;
+    this.stopLoops();
+    this.diagnostics.reset();
+    this.measuredFps = null;
+    this.delayedAudio?.setSilenced(true);
+    this.setStatus('paused');
+    this.emitStats();
+  }
+
+  /**
+   * Shows the frame captured closest to `time` in the main view while playback
+   * is held (paused or frozen). Meant to be called on every pointer move: only
+   * the latest time is decoded once the previous frame is done.
+   */
+  seek(time: number): void {
+    if (!this.isHeld) return;
+    this.setReviewRate(0);
+    this.seekTo(time);
+  }
+
+  // Moves a held view by whole frames, or by seconds from where it is
+  step(amount: number, unit: StepUnit): void {
+    if (!this.isHeld) return;
+    this.setReviewRate(0);
+    const timestamps = this.getFrameTimestamps();
+    if (timestamps.length === 0) return;
+
+    const current = this.reviewTime ?? this.views[0].lastFrameTimestamp ?? timestamps[timestamps.length - 1];
+    const index = unit === 'frame'
+      ? findNearestIndex(timestamps, current) + amount
+      : findNearestIndex(timestamps, current + amount * 1000);
+    this.seekTo(timestamps[Math.min(timestamps.length - 1, Math.max(0, index))]);
+  }
+
+  /**
+   * Plays a held view through the buffer at `rate` times real time; negative
+   * rates play in reverse and 0 stops. Stops by itself at either end of the buffer.
+   */
+  setReviewRate(rate: number): void {
+    this.stopReviewPlayback();
+    const timestamps = rate !== 0 && this.isHeld ? this.getFrameTimestamps() : [];
+    if (timestamps.length === 0) {
+      this.updateReviewRate(0);
+      return;
+    }
+
+    const first = timestamps[0];
+    const last = timestamps[timestamps.length - 1];
+    let position = this.reviewTime ?? this.views[0].lastFrameTimestamp ?? last;
+    // Starting at the end it's heading for plays the whole buffer again
+    if ((rate > 0 && position >= last) || (rate < 0 && position <= first)) {
+      position = rate > 0 ? first : last;
+    }
+    let shownIndex = -1;
+    let lastTick = performance.now();
+
+    const tick = (now: number) => {
+      position = Math.min(last, Math.max(first, position + (now - lastTick) * rate));
+      lastTick = now;
+      // Playing forward feeds the decode cursors every tick; seeks only go out when the frame
+      // changes, which at slow speeds is far less often than every tick
+      const index = findNearestIndex(timestamps, position);
+      if (rate > 0 && this.advanceReview(timestamps[index])) {
+        shownIndex = index;
+      } else if (index !== shownIndex) {
+        shownIndex = index;
+        this.seekTo(timestamps[index]);
+      }
+
+      if (position === first || position === last) {
+        this.reviewFrame = null;
+        this.updateReviewRate(0);
+      } else {
+        this.reviewFrame = requestAnimationFrame(tick);
+      }
+    };
+    this.updateReviewRate(rate);
+    this.reviewFrame = requestAnimationFrame(tick);
+  }
+
+  /**
+   * Replays the last `loopSeconds` in a continuous loop at `loopRate` while
+   * capture carries on, freezing the main view if it's playing. The frames in
+   * memory are held until the loop ends, so capture can't evict them from
+   * under it. Unfreezing returns to the delayed mirror; seeking or stepping
+   * ends the loop in place.
+   */
+  startLoop(): void {
+    if (this.currentStatus === 'running') {
+      this.freeze();
+    }
+    const newest = this.newestTimestamp;
+    if (!this.isHeld || newest === null) return;
+
+    this.setReviewRate(0);
+    const holdStart = this.memoryOldestTimestamp ?? newest;
+    this.loopHold = { start: holdStart, end: newest, release: this.holdFrames(holdStart, newest) };
+    const start = Math.max(holdStart, newest - this.currentSettings.loopSeconds * 1000);
+    this.loop = { start, end: newest };
+    this.emit('loop', this.loop);
+    this.runLoop();
+  }
+
+  // Moves the running loop's in and out points, keeping them inside the held frames and apart
+  setLoopWindow(window: LoopWindow): void {
+    if (!this.loop || !this.loopHold) return;
+    const { start: oldest, end: newest } = this.loopHold;
+    const start = Math.max(oldest, Math.min(window.start, newest - MIN_LOOP_DURATION_MS));
+    const end = Math.min(newest, Math.max(window.end, start + MIN_LOOP_DURATION_MS));
+    this.loop = { start, end };
+    this.emit('loop', this.loop);
+  }
+
+  // Keeps the frame the main view is showing as an onion-skin reference, at full resolution
+  async pinFrame(): Promise<PinnedFrame | null> {
+    const timestamp = this.reviewTime ?? this.views[0].lastFrameTimestamp;
+    if (this.currentStatus === 'idle' || timestamp === null) return null;
+
+    const frame = await this.getFrameAt(timestamp);
+    if (!frame) return null;
+    try {
+      const pin: PinnedFrame = { id: `pin-${crypto.randomUUID()}`, timestamp, image: await createImageBitmap(frame) };
+      // The session may have stopped while decoding
+      if (this.status === 'idle') {
+        pin.image.close();
+        return null;
+      }
+      this.pins = [...this.pins, pin];
+      this.emit('pins', this.pins);
+      return pin;
+    } finally {
+      frame.close();
+    }
+  }
+
+  removePin(id: string): void {
+    this.pins.find(pin => pin.id === id)?.image.close();
+    this.pins = this.pins.filter(pin => pin.id !== id);
+    this.emit('pins', this.pins);
+    if (this.currentSettings.onionSkin.pinId === id) {
+      this.update({ onionSkin: { ...this.currentSettings.onionSkin, pinId: null } });
+    }
+  }
+
+  resume(): void {
+    if (this.currentStatus !== 'paused') return;
+    this.endReview();
+    this.setStatus('running');
+    this.startLoops();
+  }
+
+  // Releases everything except the stream, which the caller owns. The buffer is
+  // kept as the last recording until the next session starts.
+  stop(): void {
+    if (this.currentStatus !== 'idle') {
+      const recording = this.snapshotRecording();
+      if (recording) {
+        this.setLastRecording(recording);
+      }
+      this.finishJournal();
+    }
+    [...this.pendingClips].forEach(cancel => cancel());
+    this.endReview();
+    this.clearPins();
+    this.stopLoops();
+    if (this.monitorInterval) {
+      clearInterval(this.monitorInterval);
+      this.monitorInterval = null;
+    }
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+
+    this.frameBuffer.clear();
+    this.encodedBuffer?.close();
+    this.encodedBuffer = null;
+    this.stopWorkerEncoder();
+    this.delayedAudio?.close();
+    this.delayedAudio = null;
+    this.spillStore?.close();
+    this.spillStore = null;
+    if (this.video) {
+      this.video.srcObject = null;
+    }
+
+    this.views = this.views.map(view => createViewPlayback(view.id));
+    this.gaps = [];
+    this.lastCaptureTime = null;
+    this.hiddenAt = null;
+    this.measuredFps = null;
+    this.memoryUsage = null;
+    this.cameraSize = null;
+    this.diagnostics.reset();
+
+    this.setStatus('idle');
+    this.views.forEach(view => this.emit('gap', { viewId: view.id, gap: null }));
+    this.emitStats();
+  }
+
+  setDelay(seconds: number): void {
+    this.update({ delaySeconds: seconds });
+  }
+
+  update(patch: Partial<DelayEngineSettings>): void {
+    const previous = this.currentSettings;
+    const next = { ...previous, ...patch };
+    // Buffer storage, disk spill, the encoder's codec and the microphone are fixed once running
+    if (this.currentStatus !== 'idle') {
+      next.bufferMode = previous.bufferMode;
+      next.sessionMinutes = previous.sessionMinutes;
+      next.codec = previous.codec;
+      next.audioEnabled = previous.audioEnabled;
+    }
+    next.bufferSeconds = Math.min(next.bufferSeconds, MAX_BUFFER_SECONDS[next.bufferMode]);
+    const maxDelaySeconds = getMaxDelaySeconds(next);
+    next.delaySeconds = Math.min(next.delaySeconds, maxDelaySeconds);
+    next.extraViews = next.extraViews.slice(0, MAX_VIEWS - 1).map(view => ({
+      ...view,
+      delaySeconds: Math.min(view.delaySeconds, maxDelaySeconds)
+    }));
+    next.clipPreSeconds = Math.min(next.clipPreSeconds, maxDelaySeconds);
+    next.clipPostSeconds = Math.min(next.clipPostSeconds, MAX_CLIP_POST_SECONDS);
+    next.loopSeconds = Math.min(next.loopSeconds, maxDelaySeconds);
+    next.onionSkin = {
+      ...next.onionSkin,
+      offsetSeconds: Math.min(MAX_ONION_SKIN_OFFSET_SECONDS, Math.max(MIN_ONION_SKIN_OFFSET_SECONDS, next.onionSkin.offsetSeconds)),
+      opacity: Math.min(1, Math.max(0, next.onionSkin.opacity))
+    };
+    next.exportCrop = next.exportCrop && clampCrop(next.exportCrop);
+    this.currentSettings = next;
+    if (next.transform !== previous.transform && this.transformSegments.length > 0) {
+      // Edits apply to the current camera's frames; earlier cameras' frames keep theirs
+      const current = this.transformSegments[this.transformSegments.length - 1];
+      this.transformSegments = [...this.transformSegments.slice(0, -1), { ...current, transform: next.transform }];
+    }
+    if (next.extraViews !== previous.extraViews || next.onionSkin !== previous.onionSkin) {
+      this.syncViews();
+    }
+
+    if (next.bufferSeconds !== previous.bufferSeconds || next.frameRate !== previous.frameRate) {
+      this.frameBuffer.setCapacity(next.bufferSeconds * next.frameRate);
+      this.encodedBuffer?.setMaxDuration(next.bufferSeconds * 1000);
+      this.delayedAudio?.setMaxDuration(next.bufferSeconds * 1000);
+      this.withJournal(journal => journal.setMaxDuration(next.bufferSeconds * 1000));
+    }
+    if (next.audioMuted !== previous.audioMuted) {
+      this.delayedAudio?.setMuted(next.audioMuted);
+    }
+    if (next.imageFormat !== previous.imageFormat || next.imageQuality !== previous.imageQuality) {
+      this.workerEncoder?.setOutput(IMAGE_MIME_TYPES[next.imageFormat], next.imageQuality);
+    }
+    if (next.frameRate !== previous.frameRate && this.captureInterval) {
+      this.diagnostics.reset();
+      this.stopCapture();
+      this.startCapture();
+    }
+
+    this.emit('settings', next);
+    this.emitStats();
+  }
+
+  /**
+   * Keeps the delayed output going while any view is shown in Picture-in-Picture,
+   * where the page itself is often hidden. Capture stops pausing with the page,
+   * and playback runs on the Document Picture-in-Picture window's animation
+   * frames, or on a timer with plain video Picture-in-Picture, because a hidden
+   * page gets no animation frames of its own.
+   */
+  setPictureInPicture(viewId: string, active: boolean, pipWindow: Window | null = null): void {
+    if (!active) {
+      this.pictureInPictureViews.delete(viewId);
+    } else {
+      if (pipWindow) {
+        // A page can only have one Document Picture-in-Picture window; closing the old one
+        // fires its pagehide, which lets the view that opened it clean up
+        this.pictureInPictureViews.forEach((window, id) => {
+          if (!window || id === viewId || window === pipWindow) return;
+          window.close();
+          this.pictureInPictureViews.delete(id);
+        });
+      }
+      this.pictureInPictureViews.set(viewId, pipWindow);
+    }
+    this.reschedulePlayback();
+  }
+
+  // Transform of the camera that captured the frame at `time`
+  getFrameTransform(time: number): FrameTransform {
+    return getTransformAt(this.transformSegments, time, this.currentSettings.transform);
+  }
+
+  /**
+   * Decodes the frame captured closest to `time` from memory or disk. The
+   * caller owns the returned image and must close it.
+   */
+  async getFrameAt(time: number): Promise<ImageBitmap | VideoFrame | null> {
+    const memoryOldest = this.memoryOldestTimestamp;
+    // Frames held for the loop stay in memory, while the disk may already have dropped them
+    const isHeldForLoop = this.loopHold !== null && time >= this.loopHold.start && time <= this.loopHold.end;
+    if (this.spillStore && !isHeldForLoop && (memoryOldest === null || time < memoryOldest)) {
+      const entries = await this.spillStore.entriesForFrameAt(time);
+      if (entries.length > 0) {
+        return this.decodeEntries(entries);
+      }
+    }
+
+    if (this.encodedBuffer) {
+      const chunks = this.encodedBuffer.chunksForFrameAt(time);
+      const decoderConfig = this.encodedBuffer.getDecoderConfig();
+      return chunks.length > 0 && decoderConfig ? decodeLastFrame(decoderConfig, chunks) : null;
+    }
+
+    const frame = this.frameBuffer.nearest(time);
+    return frame ? createImageBitmap(frame.blob) : null;
+  }
+
+  // Saves the frames captured between `from` and `to` (the whole buffer by default)
+  async exportRange(options: ExportRangeOptions): Promise<VideoSaveResult> {
+    const { from = -Infinity, to = Infinity, filename, container, download } = options;
+    const { frameRate, codec, transform, exportCrop } = this.currentSettings;
+
+    // Everything spilled to disk is older than what's in memory, so it goes first. Only the
+    // requested stretch is read back, from the keyframe before it when chunks need one to decode.
+    const spillStore = this.spillStore;
+    const spillFrom = this.encodedBuffer ? spillStore?.keyFrameTimestampBefore(from) ?? from : from;
+    const spilledEntries = spillStore ? await spillStore.entriesBetween(spillFrom, to) : [];
+    const gaps = this.gaps.filter(gap => gap.end > from && gap.start < to);
+
+    const encodedBuffer = this.encodedBuffer;
+    if (encodedBuffer) {
+      const spilledChunks = await Promise.all(
+        spilledEntries.map(entry => chunkFromBlob(entry.type, entry.timestamp, entry.data))
+      );
+      const chunks = mergeByTimestamp(spilledChunks, encodedBuffer.getChunksBetween(from, to));
+      // Encoded output has to start on a keyframe
+      const startIndex = chunks.reduce(
+        (start, stored, i) => stored.chunk.type === 'key' && stored.timestamp <= from ? i : start,
+        0
+      );
+      const exported = chunks.slice(startIndex);
+
+      return saveEncodedChunksAsVideo({
+        chunks: exported,
+        decoderConfig: encodedBuffer.getDecoderConfig(),
+        codec: encodedBuffer.codec,
+        width: encodedBuffer.width,
+        height: encodedBuffer.height,
+        fps: frameRate,
+        filename,
+        container,
+        audio: this.getAudioFor(exported),
+        transform,
+        cameraTransforms: this.transformSegments,
+        crop: exportCrop,
+        download
+      });
+    }
+
+    // JPEG frames have to be re-encoded
+    const frames = mergeByTimestamp(
+      spilledEntries.map(entry => ({ blob: entry.data, timestamp: entry.timestamp })),
+      this.frameBuffer.getHeld(),
+      this.frameBuffer.toArray()
+    ).filter(frame => frame.timestamp >= from && frame.timestamp <= to);
+
+    return saveFramesAsVideo({
+      frames: frames.map(frame => frame.blob),
+      timestamps: frames.map(frame => frame.timestamp),
+      gaps,
+      fps: frameRate,
+      filename,
+      codec,
+      container,
+      audio: this.getAudioFor(frames),
+      transform,
+      cameraTransforms: this.transformSegments,
+      crop: exportCrop,
+      download
+    });
+  }
+
+  /**
+   * Instant replay: once `clipPostSeconds` have been captured after the trigger,
+   * exports the window from `clipPreSeconds` before it into the clip tray. Playback
+   * carries on meanwhile, and several triggers can overlap. Resolves null if the
+   * session stops before the window is complete.
+   */
+  async captureClip(options: ClipCaptureOptions): Promise<ReplayClip | null> {
+    if (this.currentStatus === 'idle') return null;
+
+    const { clipPreSeconds, clipPostSeconds } = this.currentSettings;
+    const triggeredAt = Date.now();
+    const now = performance.now();
+    const from = now - clipPreSeconds * 1000;
+    const to = now + clipPostSeconds * 1000;
+    // The pre-trigger frames would otherwise be evicted while the post-trigger window fills
+    const release = this.holdFrames(from, to);
+
+    const completed = await new Promise<boolean>(resolve => {
+      const cancel = () => {
+        clearTimeout(timer);
+        this.pendingClips.delete(cancel);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        this.pendingClips.delete(cancel);
+        resolve(true);
+      }, clipPostSeconds * 1000 + CLIP_SETTLE_MS);
+      this.pendingClips.add(cancel);
+      this.emitStats();
+    });
+    this.emitStats();
+    if (!completed) {
+      release();
+      return null;
+    }
+
+    const result = await this.exportRange({ ...options, from, to, download: false }).finally(release);
+    const clip: ReplayClip = {
+      id: `clip-${crypto.randomUUID()}`,
+      blob: result.blob,
+      filename: result.filename,
+      codec: result.codec,
+      container: result.container,
+      triggeredAt,
+      duration: result.duration
+    };
+    this.clips = [clip, ...this.clips].slice(0, MAX_REPLAY_CLIPS);
+    this.emit('clips', this.clips);
+    return clip;
+  }
+
+  removeClip(id: string): void {
+    this.clips = this.clips.filter(clip => clip.id !== id);
+    this.emit('clips', this.clips);
+  }
+
+  // The last session's buffer: kept in memory after Stop, or read back from the journal after a reload
+  async loadLastRecording(): Promise<RecoveredRecording | null> {
+    if (this.lastRecording || this.currentStatus !== 'idle') return this.lastRecording;
+
+    const journal = await this.getJournal();
+    const recording = await journal?.load().catch(error => {
+      console.error('Error reading recording journal:', error);
+      return null;
+    }) ?? null;
+    // A session may have started while the journal was being read
+    if (recording && this.currentStatus === 'idle') {
+      this.setLastRecording(recording);
+    }
+    return this.lastRecording;
+  }
+
+  async discardLastRecording(): Promise<void> {
+    this.setLastRecording(null);
+    if (this.currentStatus === 'idle') {
+      const journal = await this.getJournal();
+      await journal?.clear();
+    }
+  }
+
+  // The recording is saved with the transform of the camera last used and the current export crop
+  async exportRecording(recording: RecoveredRecording, options: RecordingExportOptions): Promise<VideoSaveResult> {
+    const { filename, container } = options;
+    const { transform, exportCrop } = this.currentSettings;
+
+    if (recording.bufferMode === 'encoded') {
+      return saveEncodedChunksAsVideo({
+        ...await this.getRecordingChunks(recording),
+        filename,
+        container,
+        transform,
+        crop: exportCrop
+      });
+    }
+
+    return saveFramesAsVideo({
+      frames: recording.entries.map(entry => entry.data),
+      timestamps: recording.entries.map(entry => entry.timestamp),
+      gaps: recording.gaps,
+      fps: recording.frameRate,
+      filename,
+      codec: this.currentSettings.codec,
+      container,
+      transform,
+      crop: exportCrop
+    });
+  }
+
+  // A playable file for reviewing an encoded recording; JPEG recordings are reviewed frame by frame
+  async createRecordingPreview(recording: RecoveredRecording): Promise<Blob | null> {
+    if (recording.bufferMode !== 'encoded') return null;
+    const { blob } = await muxEncodedChunks({
+      ...await this.getRecordingChunks(recording),
+      container: 'auto',
+      transform: this.currentSettings.transform,
+      crop: this.currentSettings.exportCrop
+    });
+    return blob;
+  }
+
+  getDiagnosticsSnapshot(): DiagnosticsSnapshot {
+    const stats = this.stats;
+    const stream = this.video?.srcObject as MediaStream | null;
+    return {
+      ...this.diagnostics.getStats(performance.now()),
+      time: new Date().toISOString(),
+      requestedDelayMs: this.currentSettings.delaySeconds * 1000,
+      bufferedFrames: stats.bufferedFrameCount,
+      bufferedSeconds: stats.bufferedDuration / 1000,
+      bufferedBytes: this.getBufferedBytes(),
+      trackSettings: stream?.getVideoTracks()[0]?.getSettings() ?? null
+    };
+  }
+
+  // Audio is only kept for the in-memory window, so older exported frames play silent
+  private getAudioFor(frames: Array<{ timestamp: number }>): AudioTrackData | null {
+    if (!this.delayedAudio || frames.length === 0) return null;
+    return this.delayedAudio.getTrackData(frames[0].timestamp, frames[frames.length - 1].timestamp);
+  }
+
+  private get memoryOldestTimestamp(): number | null {
+    return this.encodedBuffer ? this.encodedBuffer.oldestTimestamp : this.frameBuffer.oldest()?.timestamp ?? null;
+  }
+
+  private get storedFrameSize(): FrameSize | null {
+    if (this.encodedBuffer) {
+      return { width: this.encodedBuffer.width, height: this.encodedBuffer.height };
+    }
+    return this.cameraSize ? getStorageSize(this.cameraSize, this.currentSettings.storageScale) : null;
+  }
+
+  private emit<K extends keyof DelayEngineEvents>(event: K, payload: DelayEngineEvents[K]): void {
+    this.listeners.get(event)?.forEach(listener => listener(payload));
+  }
+
+  private async getRecordingChunks(recording: RecoveredRecording): Promise<Omit<EncodedVideoSaveOptions, 'filename'>> {
+    const entries = trimToFirstKeyFrame(recording.entries);
+    return {
+      chunks: await Promise.all(entries.map(entry => chunkFromBlob(entry.type, entry.timestamp, entry.data))),
+      decoderConfig: recording.decoderConfig,
+      codec: recording.codec,
+      width: recording.width,
+      height: recording.height,
+      fps: recording.frameRate
+    };
+  }
+
+  private setLastRecording(recording: RecoveredRecording | null): void {
+    if (recording === this.lastRecording) return;
+    this.lastRecording = recording;
+    this.emit('lastRecording', recording);
+  }
+
+  private getJournal(): Promise<RecordingJournal | null> {
+    this.journal ??= RecordingJournal.open({
+      maxDuration: this.currentSettings.bufferSeconds * 1000,
+      onError: (error) => console.error('Recording journal error:', error)
+    });
+    return this.journal;
+  }
+
+  // Runs `task` once the journal is open, if journaling is on
+  private withJournal(task: (journal: RecordingJournal) => void): void {
+    if (!this.isJournaling) return;
+    this.getJournal().then(journal => {
+      if (journal && this.isJournaling) task(journal);
+    });
+  }
+
+  private getRecordingInfo(): RecordingInfo | null {
+    const size = this.storedFrameSize;
+    if (!size) return null;
+
+    const encodedBuffer = this.encodedBuffer;
+    return {
+      bufferMode: encodedBuffer ? 'encoded' : 'jpeg',
+      codec: encodedBuffer?.codec ?? null,
+      decoderConfig: encodedBuffer?.getDecoderConfig() ?? null,
+      width: size.width,
+      height: size.height,
+      frameRate: this.currentSettings.frameRate,
+      gaps: [...this.gaps],
+      recordedAt: Date.now()
+    };
+  }
+
+  private async beginJournal(): Promise<void> {
+    const journal = await this.getJournal();
+    const info = this.getRecordingInfo();
+    if (!journal || !info) return;
+    journal.setMaxDuration(this.currentSettings.bufferSeconds * 1000);
+    journal.begin(info);
+    this.isJournaling = true;
+  }
+
+  private finishJournal(): void {
+    if (!this.isJournaling) return;
+    this.isJournaling = false;
+    // Gaps and the decoder configuration keep changing while recording
+    const info = this.getRecordingInfo();
+    this.getJournal().then(journal => {
+      if (!journal) return;
+      if (info) journal.updateInfo(info);
+      journal.finish();
+    });
+  }
+
+  // Copies what's in memory, since the buffers themselves are about to be cleared
+  private snapshotRecording(): RecoveredRecording | null {
+    const info = this.getRecordingInfo();
+    if (!info) return null;
+
+    const entries: SpilledEntry[] = this.encodedBuffer
+      ? this.encodedBuffer.getChunks().map(({ chunk, timestamp }) => ({ timestamp, type: chunk.type, data: chunkToBlob(chunk) }))
+      : this.frameBuffer.toArray().map(frame => ({ timestamp: frame.timestamp, type: 'key' as const, data: frame.blob }));
+    return entries.length > 0 ? { ...info, entries } : null;
+  }
+
+  private get isCapturing(): boolean {
+    return this.currentStatus === 'running' || this.currentStatus === 'frozen';
+  }
+
+  private get isPictureInPicture(): boolean {
+    return this.pictureInPictureViews.size > 0;
+  }
+
+  private get pipWindow(): Window | null {
+    return [...this.pictureInPictureViews.values()].find(window => window !== null) ?? null;
+  }
+
+  // Playback is stopped on a frame that can be reviewed
+  private get isHeld(): boolean {
+    return this.currentStatus === 'paused' || this.currentStatus === 'frozen';
+  }
+
+  private emitStats(): void {
+    if (this.statsTimeout) {
+      clearTimeout(this.statsTimeout);
+      this.statsTimeout = null;
+    }
+    this.emit('stats', this.stats);
+  }
+
+  // For per-frame changes: folds them into one stats event every STATS_THROTTLE_MS
+  private emitStatsThrottled(): void {
+    if (this.statsTimeout) return;
+    this.statsTimeout = setTimeout(() => this.emitStats(), STATS_THROTTLE_MS);
+  }
+
+  private setStatus(status: DelayEngineStatus): void {
+    this.currentStatus = status;
+    this.emit('status', status);
+  }
+
+  private startLoops(): void {
+    if (this.hiddenAt !== null) return;
+    this.startCapture();
+    if (this.currentStatus === 'running') {
+      this.startPlayback();
+    }
+  }
+
+  private stopLoops(): void {
+    this.stopCapture();
+    this.stopPlayback();
+  }
+
+  private startPlayback(): void {
+    this.lastPlaybackTime = null;
+    this.schedulePlayback();
+  }
+
+  private schedulePlayback(): void {
+    const renderFrame = () => {
+      this.playDelayedFrames();
+      this.schedulePlayback();
+    };
+
+    const pipWindow = this.pipWindow;
+    if (pipWindow) {
+      const id = pipWindow.requestAnimationFrame(renderFrame);
+      this.cancelPlaybackFrame = () => pipWindow.cancelAnimationFrame(id);
+    } else if (this.isPictureInPicture && document.visibilityState === 'hidden') {
+      // Browsers may slow timers in hidden pages, but unlike animation frames they keep firing
+      const timer = setTimeout(renderFrame, 1000 / this.currentSettings.frameRate);
+      this.cancelPlaybackFrame = () => clearTimeout(timer);
+    } else {
+      const id = requestAnimationFrame(renderFrame);
+      this.cancelPlaybackFrame = () => cancelAnimationFrame(id);
+    }
+  }
+
+  // Moves running playback onto whichever clock schedulePlayback now picks
+  private reschedulePlayback(): void {
+    if (!this.cancelPlaybackFrame) return;
+    this.cancelPlaybackFrame();
+    this.schedulePlayback();
+  }
+
+  private stopPlayback(): void {
+    this.cancelPlaybackFrame?.();
+    this.cancelPlaybackFrame = null;
+  }
+
+  private startCapture(): void {
+    this.captureInterval = setInterval(() => this.captureFrame(), 1000 / this.currentSettings.frameRate);
+  }
+
+  private stopCapture(): void {
+    if (this.captureInterval) {
+      clearInterval(this.captureInterval);
+      this.captureInterval = null;
+    }
+  }
+
+  // Timers are throttled in hidden pages, so either stop capture explicitly and record the
+  // whole hidden stretch as a gap, or keep capturing and let missed frames be detected as gaps
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      // Hidden tabs are the likeliest to be discarded, so write the journal out now
+      this.withJournal(journal => journal.flush());
+      // Whoever is watching in Picture-in-Picture still needs the delayed feed
+      if (this.isCapturing && this.currentSettings.backgroundCapture === 'pause' && !this.isPictureInPicture) {
+        this.hiddenAt = this.lastCaptureTime ?? performance.now();
+        this.stopLoops();
+        this.delayedAudio?.setSilenced(true);
+      } else {
+        this.reschedulePlayback();
+      }
+      return;
+    }
+
+    if (this.hiddenAt !== null) {
+      this.gaps.push({ start: this.hiddenAt, end: performance.now() });
+      // The gap is already recorded, so the first frame back shouldn't add another
+      this.lastCaptureTime = null;
+      this.hiddenAt = null;
+      if (this.isCapturing) {
+        this.startLoops();
+      }
+    } else {
+      this.reschedulePlayback();
+    }
+  };
+
+  // Marks a gap when frames stop arriving, e.g. while the browser throttles a hidden tab
+  private noteCaptureTime(capturedAt: number): void {
+    const previous = this.lastCaptureTime;
+    if (previous !== null && capturedAt <= previous) return;
+    if (previous !== null && isCaptureGap(previous, capturedAt)) {
+      this.gaps.push({ start: previous, end: capturedAt });
+    }
+    this.lastCaptureTime = capturedAt;
+
+    const oldest = this.oldestTimestamp;
+    if (oldest !== null) {
+      this.gaps = dropGapsBefore(this.gaps, oldest);
+    }
+  }
+
+  private storeCapturedFrame = (blob: Blob | null, capturedAt: number) => {
+    if (!blob || this.currentStatus === 'idle') {
+      this.diagnostics.recordDrop();
+      return;
+    }
+    // The ring buffer drops (and closes) the oldest frame once full
+    this.frameBuffer.push(createCapturedFrame(blob, capturedAt));
+    this.withJournal(journal => journal.append({ timestamp: capturedAt, type: 'key', data: blob }));
+    this.diagnostics.recordCapture(capturedAt);
+    this.noteCaptureTime(capturedAt);
+    this.emitStatsThrottled();
+  };
+
+  private captureFrame(): void {
+    const video = this.video;
+    if (!video || video.videoWidth === 0) return;
+    const { storageScale, imageFormat, imageQuality } = this.currentSettings;
+    const cameraSize = { width: video.videoWidth, height: video.videoHeight };
+    this.diagnostics.recordTick(performance.now());
+
+    const encodedBuffer = this.encodedBuffer;
+    const workerEncoder = this.workerEncoder;
+
+    if (encodedBuffer) {
+      // The encoder is configured for a fixed size, so scale to it even if the camera changes
+      const canvas = this.getCaptureCanvas(encodedBuffer.width, encodedBuffer.height);
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const capturedAt = performance.now();
+
+      if (encodedBuffer.encode(canvas, capturedAt)) {
+        this.diagnostics.recordCapture(capturedAt);
+        this.noteCaptureTime(capturedAt);
+      } else {
+        this.diagnostics.recordDrop();
+      }
+      this.emitStatsThrottled();
+    } else if (workerEncoder) {
+      // Only the bitmap grab runs here; drawing and compression happen in the worker
+      const storageSize = storageScale === 'full' ? undefined : getStorageSize(cameraSize, storageScale);
+      workerEncoder.capture(video, performance.now(), storageSize).then(accepted => {
+        if (!accepted) this.diagnostics.recordDrop();
+      });
+    } else {
+      // Stored frames can be smaller than the camera frame; the live preview is unaffected
+      const storageSize = getStorageSize(cameraSize, storageScale);
+      const canvas = this.getCaptureCanvas(storageSize.width, storageSize.height);
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      // Stamp the frame when it is grabbed, not when encoding finishes
+      const capturedAt = performance.now();
+
+      canvas.toBlob((blob) => this.storeCapturedFrame(blob, capturedAt), IMAGE_MIME_TYPES[imageFormat], imageQuality);
+    }
+  }
+
+  private getCaptureCanvas(width: number, height: number): HTMLCanvasElement {
+    this.captureCanvas ??= document.createElement('canvas');
+    if (this.captureCanvas.width !== width || this.captureCanvas.height !== height) {
+      this.captureCanvas.width = width;
+      this.captureCanvas.height = height;
+    }
+    return this.captureCanvas;
+  }
+
+  private seekTo(time: number): void {
+    this.reviewTime = time;
+    this.seekTarget = time;
+    if (!this.isSeeking) {
+      this.runSeeks();
+    }
+  }
+
+  private updateReviewRate(rate: number): void {
+    if (rate === this.reviewRate) return;
+    this.reviewRate = rate;
+    this.emit('reviewRate', rate);
+  }
+
+  private endReview(): void {
+    this.setReviewRate(0);
+    this.reviewTime = null;
+  }
+
+  // Cancels review playback and the loop, leaving the view on its current frame
+  private stopReviewPlayback(): void {
+    if (this.reviewFrame !== null) {
+      cancelAnimationFrame(this.reviewFrame);
+      this.reviewFrame = null;
+    }
+    if (this.loop) {
+      this.loop = null;
+      this.loopHold?.release();
+      this.loopHold = null;
+      this.emit('loop', null);
+    }
+  }
+
+  private runLoop(): void {
+    let window: LoopWindow | null = null;
+    let timestamps: number[] = [];
+    let position = 0;
+    let shownIndex = -1;
+    let lastTick = performance.now();
+
+    const tick = (now: number) => {
+      const loop = this.loop;
+      if (!loop) return;
+      // The window moved; its frames are held, so they only change when it does
+      if (loop !== window) {
+        window = loop;
+        timestamps = this.getFrameTimestamps().filter(time => time >= loop.start && time <= loop.end);
+      }
+      if (position > loop.end || position < loop.start) {
+        position = loop.start;
+        shownIndex = -1;
+      }
+
+      if (timestamps.length > 0) {
+        const index = findNearestIndex(timestamps, position);
+        if (this.advanceReview(timestamps[index])) {
+          shownIndex = index;
+        } else if (index !== shownIndex) {
+          shownIndex = index;
+          this.seekTo(timestamps[index]);
+        }
+      }
+      position += (now - lastTick) * this.currentSettings.loopRate;
+      lastTick = now;
+      this.reviewFrame = requestAnimationFrame(tick);
+    };
+    this.reviewFrame = requestAnimationFrame(tick);
+  }
+
+  /**
+   * Moves held views forward to `time` for review playback and the loop. Each
+   * view's decode cursor carries on from its last frame, where seeking would
+   * decode from the keyframe again for every frame. Returns false, leaving the
+   * frame to seekTo, when there's no cursor or the frame isn't in memory.
+   */
+  private advanceReview(time: number): boolean {
+    const view = this.views[0];
+    const ghost = this.views.find(candidate => candidate.id === GHOST_VIEW_ID);
+    const ghostTime = time - this.currentSettings.onionSkin.offsetSeconds * 1000;
+    const memoryOldest = this.memoryOldestTimestamp;
+    const hold = this.loopHold;
+    const isInMemory = (frameTime: number) => {
+      return (memoryOldest !== null && frameTime >= memoryOldest) || (hold !== null && frameTime >= hold.start && frameTime <= hold.end);
+    };
+    // A seek still decoding would land on top of the cursor's frames
+    if (this.isSeeking || !view.cursor || !isInMemory(time)) return false;
+    if (ghost && (!ghost.cursor || !isInMemory(ghostTime))) return false;
+
+    this.reviewTime = time;
+    if (ghost) {
+      this.drawReviewFrame(ghost, ghostTime);
+    }
+    this.drawReviewFrame(view, time);
+    return true;
+  }
+
+  private drawReviewFrame(view: ViewPlayback, time: number): void {
+    const videoFrame = view.cursor?.frameAt(time);
+    if (!videoFrame || videoFrame === view.lastDrawnFrame) return;
+    view.lastDrawnFrame = videoFrame;
+    // VideoFrame timestamps are in microseconds
+    const timestamp = videoFrame.timestamp / 1000;
+    view.lastFrameTimestamp = timestamp;
+    this.emit('frame', { viewId: view.id, source: videoFrame, width: videoFrame.displayWidth, height: videoFrame.displayHeight, timestamp });
+
+    if (view.id !== MAIN_VIEW_ID) return;
+    const gap = findGapAt(this.gaps, timestamp);
+    if (gap !== view.activeGap) {
+      view.activeGap = gap;
+      this.emit('gap', { viewId: view.id, gap });
+    }
+  }
+
+  // Keeps frames captured between `from` and `to` in memory after eviction, until the returned function is called
+  private holdFrames(from: number, to: number): () => void {
+    const releaseFrames = this.frameBuffer.hold(from, to);
+    const releaseChunks = this.encodedBuffer?.hold(from, to);
+    return () => {
+      releaseFrames();
+      releaseChunks?.();
+    };
+  }
+
+  // Capture time of every buffered frame, on disk, in memory and held, oldest first
+  private getFrameTimestamps(): number[] {
+    const spilled = this.spillStore?.timestamps ?? [];
+    const memory = this.encodedBuffer
+      ? this.encodedBuffer.getChunks().map(stored => stored.timestamp)
+      : this.frameBuffer.toArray().map(frame => frame.timestamp);
+    const held = this.encodedBuffer
+      ? this.encodedBuffer.getHeldTimestamps()
+      : this.frameBuffer.getHeld().map(frame => frame.timestamp);
+    if (held.length === 0) return [...spilled, ...memory];
+    // Frames evicted outside the holds can sit on disk between held ones and memory
+    return [...new Set([...spilled, ...held, ...memory])].sort((a, b) => a - b);
+  }
+
+  private clearPins(): void {
+    if (this.pins.length === 0) return;
+    this.pins.forEach(pin => pin.image.close());
+    this.pins = [];
+    this.emit('pins', this.pins);
+    if (this.currentSettings.onionSkin.pinId !== null) {
+      this.update({ onionSkin: { ...this.currentSettings.onionSkin, pinId: null } });
+    }
+  }
+
+  private async runSeeks(): Promise<void> {
+    this.isSeeking = true;
+    const view = this.views[0];
+    while (this.seekTarget !== null) {
+      const time = this.seekTarget;
+      this.seekTarget = null;
+      // The onion skin's ghost goes first, so it's ready when the main frame is drawn
+      await this.seekGhost(time);
+      const frame = await this.getFrameAt(time).catch(error => {
+        console.error('Error seeking:', error);
+        return null;
+      });
+      if (!frame) continue;
+
+      // Playback may have resumed while the frame decoded
+      if (this.isHeld) {
+        const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+        const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+        // Playback redraws from its own position once it resumes; 'continue' picks up from here
+        view.lastDrawnFrame = null;
+        view.lastFrameTimestamp = time;
+        this.emit('frame', { viewId: view.id, source: frame, width, height, timestamp: time });
+
+        const gap = findGapAt(this.gaps, time);
+        if (gap !== view.activeGap) {
+          view.activeGap = gap;
+          this.emit('gap', { viewId: view.id, gap });
+        }
+      }
+      frame.close();
+    }
+    this.isSeeking = false;
+  }
+
+  private async seekGhost(time: number): Promise<void> {
+    const ghost = this.views.find(view => view.id === GHOST_VIEW_ID);
+    if (!ghost) return;
+    const ghostTime = time - this.currentSettings.onionSkin.offsetSeconds * 1000;
+    const frame = await this.getFrameAt(ghostTime).catch(() => null);
+    if (!frame) return;
+    if (this.isHeld) {
+      const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+      const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+      ghost.lastDrawnFrame = null;
+      ghost.lastFrameTimestamp = ghostTime;
+      this.emit('frame', { viewId: ghost.id, source: frame, width, height, timestamp: ghostTime });
+    }
+    frame.close();
+  }
+
+  private emitFrame(view: ViewPlayback, source: CanvasImageSource, width: number, height: number, timestamp: number): void {
+    if (view.id === MAIN_VIEW_ID) {
+      this.diagnostics.recordDraw(performance.now(), timestamp);
+    }
+    view.lastFrameTimestamp = timestamp;
+    this.emit('frame', { viewId: view.id, source, width, height, timestamp });
+  }
+
+  private getTargetDelay(view: ViewPlayback): number {
+    if (view.id === GHOST_VIEW_ID) {
+      return (this.currentSettings.delaySeconds + this.currentSettings.onionSkin.offsetSeconds) * 1000;
+    }
+    const extraView = this.currentSettings.extraViews.find(candidate => candidate.id === view.id);
+    return (extraView?.delaySeconds ?? this.currentSettings.delaySeconds) * 1000;
+  }
+
+  // Keeps one playback state per configured view, preserving the ones that stay
+  private syncViews(): void {
+    const { extraViews, onionSkin } = this.currentSettings;
+    const hasGhost = onionSkin.enabled && onionSkin.source === 'offset';
+    const ids = [MAIN_VIEW_ID, ...extraViews.map(view => view.id), ...(hasGhost ? [GHOST_VIEW_ID] : [])];
+    const removed = this.views.filter(view => !ids.includes(view.id));
+    removed.forEach(view => {
+      if (view.cursor) this.encodedBuffer?.closeCursor(view.cursor);
+    });
+
+    this.views = ids.map(id => {
+      const view = this.views.find(candidate => candidate.id === id) ?? createViewPlayback(id);
+      view.cursor ??= this.encodedBuffer?.createCursor() ?? null;
+      return view;
+    });
+  }
+
+  // Moves the shown delay toward the requested one by speeding playback up or slowing it
+  // down, rather than jumping, and never reaches back further than the buffer holds
+  private stepDelay(view: ViewPlayback, now: number, elapsed: number): number {
+    const targetDelay = this.getTargetDelay(view);
+    view.rampedDelay ??= targetDelay;
+    const maxStep = elapsed * MAX_DELAY_RAMP_RATE;
+    view.rampedDelay += Math.max(-maxStep, Math.min(maxStep, targetDelay - view.rampedDelay));
+
+    // While the buffer fills, hold on its oldest frame
+    const oldest = this.oldestTimestamp;
+    const availableHistory = oldest === null ? 0 : now - oldest;
+    return Math.min(view.rampedDelay, availableHistory);
+  }
+
+  private playDelayedFrames(): void {
+    const now = performance.now();
+    const elapsed = this.lastPlaybackTime === null ? 0 : now - this.lastPlaybackTime;
+    this.lastPlaybackTime = now;
+    this.views.forEach(view => this.playView(view, now, elapsed));
+  }
+
+  // Show the frame captured closest to `now - delay`, so capture jitter doesn't skew the delay
+  private playView(view: ViewPlayback, now: number, elapsed: number): void {
+    view.effectiveDelay = this.stepDelay(view, now, elapsed);
+    const targetTime = now - view.effectiveDelay;
+    const isMainView = view.id === MAIN_VIEW_ID;
+    if (isMainView) {
+      this.delayedAudio?.setDelay(view.effectiveDelay);
+    }
+
+    // Hold the last frame under a gap indicator until playback is past the missing stretch
+    const gap = findGapAt(this.gaps, targetTime);
+    if (gap !== view.activeGap) {
+      view.activeGap = gap;
+      this.emit('gap', { viewId: view.id, gap });
+    }
+    if (isMainView) {
+      // The gap's audio was recorded while nothing was shown, so it's skipped too
+      this.delayedAudio?.setSilenced(gap !== null);
+    }
+    if (gap) return;
+
+    const memoryOldest = this.memoryOldestTimestamp;
+    const spilledOldest = this.spillStore?.oldestTimestamp ?? null;
+    if (spilledOldest !== null && spilledOldest <= targetTime && (memoryOldest === null || targetTime < memoryOldest)) {
+      this.drawSpilledFrame(view, targetTime);
+      return;
+    }
+
+    if (memoryOldest === null || memoryOldest > targetTime) return;
+
+    if (view.cursor) {
+      const videoFrame = view.cursor.frameAt(targetTime);
+      if (videoFrame && videoFrame !== view.lastDrawnFrame) {
+        view.lastDrawnFrame = videoFrame;
+        // VideoFrame timestamps are in microseconds
+        this.emitFrame(view, videoFrame, videoFrame.displayWidth, videoFrame.displayHeight, videoFrame.timestamp / 1000);
+      }
+      return;
+    }
+    if (this.encodedBuffer) return;
+
+    const frame = this.frameBuffer.nearest(targetTime);
+    if (frame === view.lastDrawnFrame) return;
+    view.lastDrawnFrame = frame;
+    createImageBitmap(frame.blob)
+      .then(bitmap => {
+        // Skip the draw if a newer frame was picked while this one decoded
+        if (view.lastDrawnFrame === frame) {
+          this.emitFrame(view, bitmap, bitmap.width, bitmap.height, frame.timestamp);
+        }
+        bitmap.close();
+      })
+      .catch(error => console.error('Error decoding delayed frame:', error));
+  }
+
+  // Frames older than the in-memory window are read back from the session buffer on disk
+  private async drawSpilledFrame(view: ViewPlayback, targetTime: number): Promise<void> {
+    const spillStore = this.spillStore;
+    if (!spillStore || view.isReadingSpilledFrame) return;
+    view.isReadingSpilledFrame = true;
+
+    try {
+      const entries = await spillStore.entriesForFrameAt(targetTime);
+      const entry = entries[entries.length - 1];
+      if (!entry || entry.timestamp === view.lastDrawnFrame) return;
+
+      const image = await this.decodeEntries(entries);
+      if (image) {
+        if (image instanceof ImageBitmap) {
+          this.emitFrame(view, image, image.width, image.height, entry.timestamp);
+        } else {
+          this.emitFrame(view, image, image.displayWidth, image.displayHeight, entry.timestamp);
+        }
+        image.close();
+      }
+      view.lastDrawnFrame = entry.timestamp;
+    } catch (error) {
+      console.error('Error reading session buffer:', error);
+    } finally {
+      view.isReadingSpilledFrame = false;
+    }
+  }
+
+  private async decodeEntries(entries: SpilledEntry[]): Promise<ImageBitmap | VideoFrame | null> {
+    const entry = entries[entries.length - 1];
+    if (!entry) return null;
+
+    const encodedBuffer = this.encodedBuffer;
+    if (encodedBuffer) {
+      const chunks = await Promise.all(entries.map(spilled => chunkFromBlob(spilled.type, spilled.timestamp, spilled.data)));
+      return decodeLastFrame(encodedBuffer.getDecoderConfig(), chunks.map(stored => stored.chunk));
+    }
+    return createImageBitmap(entry.data);
+  }
+
+  private getBufferedBytes(): number {
+    return this.encodedBuffer
+      ? this.encodedBuffer.byteLength
+      : this.frameBuffer.toArray().reduce((total, frame) => total + frame.blob.size, 0);
+  }
+
+  // Once a second: measure the delivered frame rate and check the buffer against the memory budget
+  private monitor(): void {
+    if (!this.isCapturing) return;
+    this.measuredFps = this.diagnostics.getStats(performance.now()).captureFps;
+
+    // Gaps and the decoder configuration arrive while recording; the journal writes them with its next batch
+    this.withJournal(journal => {
+      const info = this.getRecordingInfo();
+      if (info) journal.updateInfo(info);
+    });
+
+    const { frameRate, bufferSeconds } = this.currentSettings;
+    const encodedBuffer = this.encodedBuffer;
+    let usedBytes: number;
+    let bytesPerFrame: number;
+
+    if (encodedBuffer) {
+      usedBytes = encodedBuffer.byteLength;
+      bytesPerFrame = encodedBuffer.length > 0 ? usedBytes / encodedBuffer.length : 0;
+    } else {
+      const frames = this.frameBuffer.toArray();
+      usedBytes = frames.reduce((total, frame) => total + frame.blob.size, 0);
+      // Only recent frames reflect the current quality and resolution
+      const recentFrames = frames.slice(-frameRate * 2);
+      bytesPerFrame = recentFrames.length > 0
+        ? recentFrames.reduce((total, frame) => total + frame.blob.size, 0) / recentFrames.length
+        : 0;
+    }
+
+    const predictedBytes = predictBufferBytes(bytesPerFrame, frameRate, bufferSeconds);
+    this.memoryUsage = { usedBytes, predictedBytes };
+    this.emitStats();
+
+    if (bytesPerFrame === 0 || !this.cameraSize ||
+        performance.now() - this.lastDegradation < DEGRADATION_COOLDOWN_MS) return;
+
+    const step = planDegradation(
+      {
+        imageQuality: this.currentSettings.imageQuality,
+        storageScale: this.currentSettings.storageScale,
+        cameraSize: this.cameraSize,
+        bufferSeconds
+      },
+      predictedBytes,
+      this.memoryBudgetBytes,
+      // Encoded buffers have a fixed encoder size and bitrate, so only their length can change
+      { canLowerQuality: !encodedBuffer, canLowerResolution: !encodedBuffer }
+    );
+    if (!step) return;
+
+    this.lastDegradation = performance.now();
+    if (step.kind === 'quality') {
+      this.update({ imageQuality: step.to });
+    } else if (step.kind === 'resolution') {
+      this.update({ storageScale: step.to });
+    } else {
+      this.update({ bufferSeconds: step.to });
+    }
+    this.emit('degraded', step);
+  }
+
+  private async startSpillStore(): Promise<void> {
+    const spillStore = new OpfsSegmentStore({
+      maxDuration: this.currentSettings.sessionMinutes * 60 * 1000,
+      onError: (error) => console.error('Session buffer error:', error)
+    });
+
+    if (await spillStore.open()) {
+      this.spillStore = spillStore;
+    } else {
+      this.emit('sessionBufferUnavailable', undefined);
+    }
+  }
+
+  private async startDelayedAudio(stream: MediaStream): Promise<void> {
+    if (!isAudioCaptureSupported() || stream.getAudioTracks().length === 0) {
+      this.emit('audioUnavailable', undefined);
+      return;
+    }
+
+    try {
+      const delayedAudio = await DelayedAudio.create(stream, this.currentSettings.bufferSeconds * 1000);
+      delayedAudio.setMuted(this.currentSettings.audioMuted);
+      this.delayedAudio = delayedAudio;
+    } catch (error) {
+      console.error('Delayed audio error:', error);
+      this.emit('audioUnavailable', undefined);
+    }
+  }
+
+  private startWorkerEncoder(): void {
+    if (!isWorkerCaptureSupported()) return;
+
+    const { imageFormat, imageQuality } = this.currentSettings;
+    const workerEncoder = new WorkerFrameEncoder({
+      type: IMAGE_MIME_TYPES[imageFormat],
+      quality: imageQuality,
+      onFrame: this.storeCapturedFrame,
+      onError: (error) => {
+        // Drop back to compressing on the main thread
+        console.error('Capture worker error:', error);
+        if (this.workerEncoder === workerEncoder) {
+          workerEncoder.close();
+          this.workerEncoder = null;
+        }
+      }
+    });
+    this.workerEncoder = workerEncoder;
+  }
+
+  private stopWorkerEncoder(): void {
+    this.workerEncoder?.close();
+    this.workerEncoder = null;
+  }
+
+  private fallBackToJpegBuffer(reason: string): void {
+    this.encodedBuffer?.close();
+    this.encodedBuffer = null;
+    this.views.forEach(view => {
+      view.cursor = null;
+    });
+    // Encoded chunks on disk can't be read without the encoder's configuration
+    this.spillStore?.clear();
+    this.currentSettings = {
+      ...this.currentSettings,
+      bufferMode: 'jpeg',
+      bufferSeconds: Math.min(this.currentSettings.bufferSeconds, MAX_BUFFER_SECONDS.jpeg)
+    };
+    this.frameBuffer.setCapacity(this.currentSettings.bufferSeconds * this.currentSettings.frameRate);
+    this.startWorkerEncoder();
+    // Journaled chunks are useless without the encoder too
+    if (this.isJournaling) {
+      this.beginJournal();
+    }
+    this.emit('settings', this.currentSettings);
+    this.emit('fallback', `${reason} Buffer length is limited to ${MAX_BUFFER_SECONDS.jpeg}s.`);
+  }
+
+  private async startEncodedBuffer(): Promise<void> {
+    const { codec, frameRate, bufferSeconds, storageScale } = this.currentSettings;
+    const encodedBuffer = new EncodedFrameBuffer({
+      codec,
+      frameRate,
+      maxDuration: bufferSeconds * 1000,
+      onEvict: (chunks) => {
+        const spillStore = this.spillStore;
+        if (!spillStore) return;
+        chunks.forEach(({ chunk, timestamp }) => {
+          spillStore.append({ timestamp, type: chunk.type, data: chunkToBlob(chunk) });
+        });
+      },
+      onChunk: ({ chunk, timestamp }) => {
+        this.withJournal(journal => journal.append({ timestamp, type: chunk.type, data: chunkToBlob(chunk) }));
+      },
+      onError: (error) => {
+        console.error('WebCodecs buffer error:', error);
+        this.emit('error', error);
+        if (this.encodedBuffer === encodedBuffer) {
+          this.fallBackToJpegBuffer('Compressed buffering failed on this device.');
+        }
+      }
+    });
+
+    // The encoder's frame size is fixed for the session, so the stored size is chosen here
+    const storageSize = this.cameraSize && getStorageSize(this.cameraSize, storageScale);
+    const configured = storageSize && storageSize.width > 0 &&
+      await encodedBuffer.configure(storageSize.width, storageSize.height);
+
+    if (configured) {
+      this.encodedBuffer = encodedBuffer;
+      this.syncViews();
+    } else {
+      encodedBuffer.close();
+      this.fallBackToJpegBuffer('No WebCodecs encoder is available for this camera.');
+    }
+  }
+}
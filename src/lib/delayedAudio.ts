@@ -0,0 +1,203 @@
+import audioCaptureProcessorUrl from '@/workers/audioCaptureProcessor.ts?worker&url';
+
+// Posted by the capture worklet: mono samples starting at `contextTime` (seconds, audio clock)
+export interface AudioCaptureMessage {
+  samples: Float32Array;
+  contextTime: number;
+}
+
+// Mono audio for an export; `timestamp` is the capture time of the first sample in milliseconds
+export interface AudioTrackData {
+  samples: Float32Array;
+  sampleRate: number;
+  timestamp: number;
+}
+
+interface AudioChunk {
+  timestamp: number;
+  samples: Float32Array;
+}
+
+// DelayNode can't reach back further than this
+const MAX_DELAY_SECONDS = 170;
+
+// Time constants for delay and volume changes; short enough to feel instant, long enough not to click
+const DELAY_SMOOTHING_SECONDS = 0.05;
+const GAIN_SMOOTHING_SECONDS = 0.02;
+
+export const isAudioCaptureSupported = (): boolean => {
+  return typeof AudioContext !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+};
+
+/**
+ * Plays the microphone back through a Web Audio delay line and keeps recent
+ * samples for exports. The delay is set from the video playback's effective
+ * delay on every frame; small changes are smoothed, so ramping the video delay
+ * bends the audio pitch slightly instead of skipping.
+ */
+export class DelayedAudio {
+  private context: AudioContext;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private delayNode: DelayNode;
+  private gainNode: GainNode;
+  private captureNode: AudioWorkletNode;
+
+  private chunks: AudioChunk[] = [];
+  private maxDuration: number;
+  // performance.now() minus the audio clock, both in milliseconds
+  private clockOffset: number;
+
+  private muted = false;
+  private silenced = false;
+  private delaySeconds = 0;
+
+  private constructor(context: AudioContext, captureNode: AudioWorkletNode, maxDuration: number) {
+    this.context = context;
+    this.captureNode = captureNode;
+    this.maxDuration = maxDuration;
+    this.clockOffset = performance.now() - context.currentTime * 1000;
+
+    this.delayNode = context.createDelay(MAX_DELAY_SECONDS);
+    this.gainNode = context.createGain();
+    this.delayNode.connect(this.gainNode).connect(context.destination);
+    // The worklet outputs silence; connecting it keeps the graph pulling it
+    this.captureNode.connect(context.destination);
+
+    this.captureNode.port.onmessage = (event: MessageEvent<AudioCaptureMessage>) => {
+      this.storeChunk(event.data);
+    };
+  }
+
+  static async create(stream: MediaStream, maxDuration: number): Promise<DelayedAudio> {
+    const context = new AudioContext();
+    try {
+      await context.audioWorklet.addModule(audioCaptureProcessorUrl);
+      const captureNode = new AudioWorkletNode(context, 'audio-capture');
+      const delayedAudio = new DelayedAudio(context, captureNode, maxDuration);
+      delayedAudio.setStream(stream);
+      // Started from a click, so autoplay rules allow it
+      await context.resume();
+      return delayedAudio;
+    } catch (error) {
+      await context.close();
+      throw error;
+    }
+  }
+
+  get sampleRate(): number {
+    return this.context.sampleRate;
+  }
+
+  // Follows the camera switch; keeps the samples already buffered
+  setStream(stream: MediaStream): void {
+    this.source?.disconnect();
+    this.source = null;
+    if (stream.getAudioTracks().length === 0) return;
+
+    this.source = this.context.createMediaStreamSource(stream);
+    this.source.connect(this.delayNode);
+    this.source.connect(this.captureNode);
+  }
+
+  // Delay of the video frame being shown, in milliseconds
+  setDelay(delayMs: number): void {
+    // Audio reaches the speakers later than a frame reaches the screen, so start it earlier
+    const latency = this.context.baseLatency + (this.context.outputLatency || 0);
+    const delaySeconds = Math.min(MAX_DELAY_SECONDS, Math.max(0, delayMs / 1000 - latency));
+    if (Math.abs(delaySeconds - this.delaySeconds) < 0.005) return;
+
+    this.delaySeconds = delaySeconds;
+    this.delayNode.delayTime.setTargetAtTime(delaySeconds, this.context.currentTime, DELAY_SMOOTHING_SECONDS);
+  }
+
+  // The user's mute toggle
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.updateGain();
+  }
+
+  // Silences playback while the video is paused or showing a gap, without touching the mute toggle
+  setSilenced(silenced: boolean): void {
+    if (silenced === this.silenced) return;
+    this.silenced = silenced;
+    this.updateGain();
+  }
+
+  setMaxDuration(maxDuration: number): void {
+    this.maxDuration = maxDuration;
+    this.trim();
+  }
+
+  // Samples captured between `from` and `to`, joined into one track
+  getTrackData(from: number, to: number): AudioTrackData | null {
+    const sampleRate = this.context.sampleRate;
+    const chunks = this.chunks.filter(chunk =>
+      chunk.timestamp <= to && chunk.timestamp + (chunk.samples.length / sampleRate) * 1000 >= from
+    );
+    if (chunks.length === 0) return null;
+
+    const samples = new Float32Array(chunks.reduce((total, chunk) => total + chunk.samples.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+      samples.set(chunk.samples, offset);
+      offset += chunk.samples.length;
+    });
+
+    const firstTimestamp = chunks[0].timestamp;
+    const start = Math.max(0, Math.floor(((from - firstTimestamp) / 1000) * sampleRate));
+    const end = Math.min(samples.length, Math.ceil(((to - firstTimestamp) / 1000) * sampleRate));
+    if (end <= start) return null;
+
+    return {
+      samples: samples.slice(start, end),
+      sampleRate,
+      timestamp: firstTimestamp + (start / sampleRate) * 1000
+    };
+  }
+
+  clear(): void {
+    this.chunks = [];
+  }
+
+  async close(): Promise<void> {
+    this.source?.disconnect();
+    this.source = null;
+    this.captureNode.port.onmessage = null;
+    this.chunks = [];
+    await this.context.close();
+  }
+
+  private storeChunk(message: AudioCaptureMessage): void {
+    this.chunks.push({
+      timestamp: message.contextTime * 1000 + this.getClockOffset(),
+      samples: message.samples
+    });
+    this.trim();
+  }
+
+  // Re-measured when the browser supports it, since the two clocks drift apart over long sessions
+  private getClockOffset(): number {
+    if (typeof this.context.getOutputTimestamp === 'function') {
+      const { contextTime, performanceTime } = this.context.getOutputTimestamp();
+      if (contextTime !== undefined && performanceTime !== undefined && performanceTime > 0) {
+        this.clockOffset = performanceTime - contextTime * 1000;
+      }
+    }
+    return this.clockOffset;
+  }
+
+  private trim(): void {
+    const newest = this.chunks[this.chunks.length - 1];
+    if (!newest) return;
+    const cutoff = newest.timestamp - this.maxDuration;
+    const index = this.chunks.findIndex(chunk => chunk.timestamp >= cutoff);
+    if (index > 0) {
+      this.chunks.splice(0, index);
+    }
+  }
+
+  private updateGain(): void {
+    const gain = this.muted || this.silenced ? 0 : 1;
+    this.gainNode.gain.setTargetAtTime(gain, this.context.currentTime, GAIN_SMOOTHING_SECONDS);
+  }
+}
@@ -0,0 +1,619 @@
+import type { HoldRange } from '@/lib/frameRingBuffer';
+
+export type EncodedBufferCodec = 'av1' | 'hevc' | 'h264' | 'vp9';
+
+export interface EncodedFrameBufferOptions {
+  // Preferred codec; the others are tried in order when it can't be encoded here
+  codec: EncodedBufferCodec;
+  frameRate: number;
+  // How much history to keep, in milliseconds
+  maxDuration: number;
+  // Milliseconds between forced keyframes, which is also the seek granularity
+  keyFrameInterval?: number;
+  onError?: (error: Error) => void;
+  // Called with each keyframe group dropped from the front of the buffer
+  onEvict?: (chunks: StoredChunk[]) => void;
+  // Called with each chunk as the encoder produces it
+  onChunk?: (stored: StoredChunk) => void;
+}
+
+export interface StoredChunk {
+  chunk: EncodedVideoChunk;
+  // Capture time in milliseconds (performance.now() clock)
+  timestamp: number;
+}
+
+// A keyframe and the delta frames that depend on it; eviction and seeking work per group
+interface GroupOfPictures {
+  keyTimestamp: number;
+  chunks: StoredChunk[];
+}
+
+// Level 4.x profiles so 1080p capture fits every codec
+const ENCODER_CODEC_STRINGS: Record<EncodedBufferCodec, string> = {
+  av1: 'av01.0.08M.08',
+  hevc: 'hvc1.1.6.L120.B0',
+  h264: 'avc1.42E028',
+  vp9: 'vp09.00.40.08'
+};
+
+const CODEC_FALLBACK_ORDER: EncodedBufferCodec[] = ['h264', 'vp9', 'av1', 'hevc'];
+
+// Don't let the encoder or decoder fall further behind than this many frames
+const MAX_QUEUE_SIZE = 4;
+
+export const isWebCodecsSupported = (): boolean => {
+  return typeof VideoEncoder !== 'undefined' &&
+         typeof VideoDecoder !== 'undefined' &&
+         typeof VideoFrame !== 'undefined';
+};
+
+// Decodes a keyframe and the delta chunks after it, resolving with the last frame.
+// The caller owns the returned frame and must close it.
+export const decodeLastFrame = async (
+  decoderConfig: VideoDecoderConfig,
+  chunks: EncodedVideoChunk[]
+): Promise<VideoFrame | null> => {
+  let lastFrame: VideoFrame | null = null;
+  let decodeError: Error | null = null;
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      lastFrame?.close();
+      lastFrame = frame;
+    },
+    error: (error) => {
+      decodeError = error;
+    }
+  });
+
+  try {
+    decoder.configure(decoderConfig);
+    chunks.forEach(chunk => decoder.decode(chunk));
+    await decoder.flush();
+  } finally {
+    if (decoder.state !== 'closed') {
+      decoder.close();
+    }
+  }
+
+  if (decodeError) {
+    lastFrame?.close();
+    throw decodeError;
+  }
+  return lastFrame;
+};
+
+// Copies a chunk's bytes out so it can be written to disk
+export const chunkToBlob = (chunk: EncodedVideoChunk): Blob => {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return new Blob([data]);
+};
+
+export const chunkFromBlob = async (
+  type: EncodedVideoChunkType,
+  timestamp: number,
+  data: Blob
+): Promise<StoredChunk> => {
+  const chunk = new EncodedVideoChunk({
+    type,
+    timestamp: Math.round(timestamp * 1000),
+    data: await data.arrayBuffer()
+  });
+  return { chunk, timestamp };
+};
+
+// Rough bitrate for a delay buffer: enough for form checking without storing raw frames
+const getBitrate = (width: number, height: number, frameRate: number): number => {
+  return Math.round(width * height * frameRate * 0.1);
+};
+
+export interface ReencodeOptions {
+  chunks: StoredChunk[];
+  decoderConfig: VideoDecoderConfig;
+  codec: EncodedBufferCodec;
+  // Size of the re-encoded frames
+  width: number;
+  height: number;
+  frameRate: number;
+  // Paints a decoded frame onto the output canvas, which has the new size
+  draw: (ctx: CanvasRenderingContext2D, frame: VideoFrame) => void;
+}
+
+export interface ReencodedChunks {
+  chunks: StoredChunk[];
+  decoderConfig: VideoDecoderConfig;
+}
+
+/**
+ * Decodes the chunks, redraws every frame through `draw` and encodes the
+ * result with the same codec, keeping each chunk's timestamp. For exports
+ * that change the picture itself, where the stored chunks can't be muxed as-is.
+ */
+export const reencodeChunks = async (options: ReencodeOptions): Promise<ReencodedChunks> => {
+  const { chunks, decoderConfig, codec, width, height, frameRate, draw } = options;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const output: StoredChunk[] = [];
+  let outputConfig: VideoDecoderConfig | null = null;
+  let failure: Error | null = null;
+  let frameCount = 0;
+  // Same keyframe spacing as the capture buffer
+  const keyFrameEvery = Math.max(1, Math.round(frameRate * 2));
+
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      if (metadata?.decoderConfig) {
+        outputConfig = metadata.decoderConfig;
+      }
+      output.push({ chunk, timestamp: chunk.timestamp / 1000 });
+    },
+    error: (error) => {
+      failure = error;
+    }
+  });
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      try {
+        draw(ctx, frame);
+        const redrawn = new VideoFrame(canvas, { timestamp: frame.timestamp });
+        encoder.encode(redrawn, { keyFrame: frameCount % keyFrameEvery === 0 });
+        redrawn.close();
+        frameCount++;
+      } finally {
+        frame.close();
+      }
+    },
+    error: (error) => {
+      failure = error;
+    }
+  });
+
+  try {
+    encoder.configure({
+      codec: ENCODER_CODEC_STRINGS[codec],
+      width,
+      height,
+      bitrate: getBitrate(width, height, frameRate),
+      framerate: frameRate,
+      ...(codec === 'h264' ? { avc: { format: 'avc' as const } } : {})
+    });
+    decoder.configure(decoderConfig);
+
+    for (const { chunk } of chunks) {
+      if (failure) break;
+      // Let both sides catch up rather than holding every decoded frame in memory
+      while (decoder.decodeQueueSize > MAX_QUEUE_SIZE || encoder.encodeQueueSize > MAX_QUEUE_SIZE) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      decoder.decode(chunk);
+    }
+    await decoder.flush();
+    await encoder.flush();
+  } finally {
+    if (decoder.state !== 'closed') {
+      decoder.close();
+    }
+    if (encoder.state !== 'closed') {
+      encoder.close();
+    }
+  }
+
+  if (failure) {
+    throw failure;
+  }
+  if (!outputConfig) {
+    throw new Error('Re-encoding produced no frames');
+  }
+  return { chunks: output, decoderConfig: outputConfig };
+};
+
+interface GroupLocation {
+  group: GroupOfPictures;
+  index: number;
+}
+
+interface DecodeCursorOptions {
+  locate: (time: number) => GroupLocation | null;
+  getDecoderConfig: () => VideoDecoderConfig | null;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A decoder positioned somewhere in an EncodedFrameBuffer. Every playhead
+ * reading the buffer at its own delay gets its own cursor; sharing one would
+ * restart decoding from a keyframe each time a different playhead read from it.
+ */
+export class DecodeCursor {
+  private options: DecodeCursorOptions;
+  private decoder: VideoDecoder | null = null;
+  // The group being decoded and the last chunk index fed to the decoder
+  private group: GroupOfPictures | null = null;
+  private index = -1;
+  private decodedFrame: VideoFrame | null = null;
+
+  constructor(options: DecodeCursorOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Returns the most recently decoded frame and moves the decoder toward the
+   * chunk nearest `time`. Decoding is asynchronous, so the returned frame can
+   * trail the target by a frame or two; callers must not close it.
+   */
+  frameAt(time: number): VideoFrame | null {
+    const location = this.options.locate(time);
+    const decoderConfig = this.options.getDecoderConfig();
+    if (!location || !decoderConfig) return this.decodedFrame;
+
+    const { group, index } = location;
+    const decoder = this.ensureDecoder(decoderConfig);
+
+    if (decoder.decodeQueueSize > MAX_QUEUE_SIZE) return this.decodedFrame;
+
+    // Seeking backwards or into another group means starting again from its keyframe
+    if (group !== this.group || index < this.index) {
+      decoder.reset();
+      decoder.configure(decoderConfig);
+      this.group = group;
+      this.index = -1;
+    }
+
+    while (this.index < index) {
+      this.index++;
+      decoder.decode(group.chunks[this.index].chunk);
+    }
+
+    return this.decodedFrame;
+  }
+
+  // The group was evicted; the next read starts again from a keyframe
+  forgetGroup(group: GroupOfPictures): void {
+    if (group === this.group) {
+      this.resetPosition();
+    }
+  }
+
+  // Drops the decoded frame and position, e.g. when the buffer is cleared
+  reset(): void {
+    this.resetPosition();
+    this.decodedFrame?.close();
+    this.decodedFrame = null;
+  }
+
+  close(): void {
+    this.reset();
+    if (this.decoder && this.decoder.state !== 'closed') {
+      this.decoder.close();
+    }
+    this.decoder = null;
+  }
+
+  private ensureDecoder(decoderConfig: VideoDecoderConfig): VideoDecoder {
+    if (this.decoder && this.decoder.state !== 'closed') return this.decoder;
+
+    this.decoder = new VideoDecoder({
+      output: (frame) => {
+        this.decodedFrame?.close();
+        this.decodedFrame = frame;
+      },
+      error: (error) => {
+        this.resetPosition();
+        this.options.onError?.(error);
+      }
+    });
+    this.decoder.configure(decoderConfig);
+    this.resetPosition();
+    return this.decoder;
+  }
+
+  private resetPosition(): void {
+    this.group = null;
+    this.index = -1;
+  }
+}
+
+/**
+ * Delay buffer that keeps captured frames as encoded WebCodecs chunks instead of
+ * individual JPEGs. Chunks are grouped by keyframe so whole groups can be evicted
+ * and the delayed view can seek by decoding forward from the nearest keyframe.
+ */
+export class EncodedFrameBuffer {
+  private options: EncodedFrameBufferOptions;
+  private encoder: VideoEncoder | null = null;
+  private encoderConfig: VideoEncoderConfig | null = null;
+  private decoderConfig: VideoDecoderConfig | null = null;
+  private activeCodec: EncodedBufferCodec | null = null;
+  private groups: GroupOfPictures[] = [];
+  private chunkCount = 0;
+  private totalBytes = 0;
+  private lastKeyFrameTime = -Infinity;
+  private cursors = new Set<DecodeCursor>();
+  // Evicted groups with chunks in any of these ranges are kept, oldest first, until released
+  private holds = new Set<HoldRange>();
+  private heldGroups: GroupOfPictures[] = [];
+
+  constructor(options: EncodedFrameBufferOptions) {
+    this.options = { keyFrameInterval: 2000, ...options };
+  }
+
+  get codec(): EncodedBufferCodec | null {
+    return this.activeCodec;
+  }
+
+  get width(): number {
+    return this.encoderConfig?.width ?? 0;
+  }
+
+  get height(): number {
+    return this.encoderConfig?.height ?? 0;
+  }
+
+  get length(): number {
+    return this.chunkCount;
+  }
+
+  get byteLength(): number {
+    return this.totalBytes;
+  }
+
+  get oldestTimestamp(): number | null {
+    return this.groups.length > 0 ? this.groups[0].keyTimestamp : null;
+  }
+
+  get newestTimestamp(): number | null {
+    const lastGroup = this.groups[this.groups.length - 1];
+    return lastGroup ? lastGroup.chunks[lastGroup.chunks.length - 1].timestamp : null;
+  }
+
+  // Time covered by the buffer, in milliseconds
+  get duration(): number {
+    if (this.oldestTimestamp === null) return 0;
+    return this.newestTimestamp - this.oldestTimestamp;
+  }
+
+  setMaxDuration(maxDuration: number): void {
+    this.options.maxDuration = maxDuration;
+    this.evictExpiredGroups();
+  }
+
+  // Picks the first supported codec for this frame size and sets up the encoder
+  async configure(width: number, height: number): Promise<boolean> {
+    if (!isWebCodecsSupported()) return false;
+
+    const candidates = [
+      this.options.codec,
+      ...CODEC_FALLBACK_ORDER.filter(codec => codec !== this.options.codec)
+    ];
+
+    for (const codec of candidates) {
+      const config: VideoEncoderConfig = {
+        codec: ENCODER_CODEC_STRINGS[codec],
+        width,
+        height,
+        bitrate: getBitrate(width, height, this.options.frameRate),
+        framerate: this.options.frameRate,
+        latencyMode: 'realtime',
+        ...(codec === 'h264' ? { avc: { format: 'avc' as const } } : {})
+      };
+
+      try {
+        const { supported } = await VideoEncoder.isConfigSupported(config);
+        if (!supported) continue;
+      } catch {
+        continue;
+      }
+
+      this.resetEncoder();
+      this.clear();
+      this.encoder = new VideoEncoder({
+        output: (chunk, metadata) => this.handleChunk(chunk, metadata),
+        error: (error) => this.options.onError?.(error)
+      });
+      this.encoder.configure(config);
+      this.encoderConfig = config;
+      this.activeCodec = codec;
+      return true;
+    }
+
+    return false;
+  }
+
+  encode(source: CanvasImageSource, timestamp: number): boolean {
+    if (!this.encoder || this.encoder.state !== 'configured') return false;
+
+    // Drop the frame rather than queueing up work the device can't keep up with
+    if (this.encoder.encodeQueueSize > MAX_QUEUE_SIZE) return false;
+
+    const keyFrame = timestamp - this.lastKeyFrameTime >= this.options.keyFrameInterval;
+    const frame = new VideoFrame(source, { timestamp: Math.round(timestamp * 1000) });
+
+    try {
+      this.encoder.encode(frame, { keyFrame });
+      if (keyFrame) {
+        this.lastKeyFrameTime = timestamp;
+      }
+      return true;
+    } finally {
+      frame.close();
+    }
+  }
+
+  // A playhead of its own; close it when done
+  createCursor(): DecodeCursor {
+    const cursor = new DecodeCursor({
+      locate: (time) => this.locate(time),
+      getDecoderConfig: () => this.decoderConfig,
+      onError: this.options.onError
+    });
+    this.cursors.add(cursor);
+    return cursor;
+  }
+
+  closeCursor(cursor: DecodeCursor): void {
+    cursor.close();
+    this.cursors.delete(cursor);
+  }
+
+  /**
+   * Keeps the groups with chunks captured between `from` and `to` readable by
+   * cursors, `chunksForFrameAt` and `getChunksBetween` after they're evicted.
+   * Holds can overlap; each lasts until the returned function is called.
+   */
+  hold(from: number, to: number): () => void {
+    const range = { from, to };
+    this.holds.add(range);
+    return () => {
+      if (!this.holds.delete(range)) return;
+      this.heldGroups = this.heldGroups.filter(group => {
+        if (this.isHeld(group)) return true;
+        this.cursors.forEach(cursor => cursor.forgetGroup(group));
+        return false;
+      });
+    };
+  }
+
+  // Capture times of the chunks kept by the hold after eviction, oldest first
+  getHeldTimestamps(): number[] {
+    return this.heldGroups.flatMap(group => group.chunks.map(stored => stored.timestamp));
+  }
+
+  // Chunks from the oldest keyframe onwards, ready to be muxed without re-encoding
+  getChunks(): StoredChunk[] {
+    return this.groups.flatMap(group => group.chunks);
+  }
+
+  // Chunks captured up to `to`, starting from the keyframe at or before `from` so they decode
+  getChunksBetween(from: number, to: number): StoredChunk[] {
+    const groups = [...this.heldGroups, ...this.groups];
+    const startGroup = this.locate(from)?.group ?? groups[0];
+    const startIndex = startGroup ? groups.indexOf(startGroup) : 0;
+    return groups
+      .slice(startIndex)
+      .flatMap(group => group.chunks)
+      .filter(stored => stored.timestamp <= to);
+  }
+
+  // The keyframe and delta chunks needed to decode the chunk nearest `time` on its own
+  chunksForFrameAt(time: number): EncodedVideoChunk[] {
+    const location = this.locate(time);
+    if (!location) return [];
+    return location.group.chunks.slice(0, location.index + 1).map(stored => stored.chunk);
+  }
+
+  getDecoderConfig(): VideoDecoderConfig | null {
+    return this.decoderConfig;
+  }
+
+  clear(): void {
+    this.groups = [];
+    this.heldGroups = [];
+    this.holds.clear();
+    this.chunkCount = 0;
+    this.totalBytes = 0;
+    this.lastKeyFrameTime = -Infinity;
+    this.cursors.forEach(cursor => cursor.reset());
+  }
+
+  close(): void {
+    this.clear();
+    this.resetEncoder();
+  }
+
+  private handleChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void {
+    if (metadata?.decoderConfig) {
+      this.decoderConfig = metadata.decoderConfig;
+    }
+
+    const stored: StoredChunk = { chunk, timestamp: chunk.timestamp / 1000 };
+
+    if (chunk.type === 'key') {
+      this.groups.push({ keyTimestamp: stored.timestamp, chunks: [stored] });
+    } else {
+      const lastGroup = this.groups[this.groups.length - 1];
+      // A delta frame without its keyframe can't be decoded, so it's useless
+      if (!lastGroup) return;
+      lastGroup.chunks.push(stored);
+    }
+
+    this.chunkCount++;
+    this.totalBytes += chunk.byteLength;
+    this.options.onChunk?.(stored);
+    this.evictExpiredGroups();
+  }
+
+  // Drop whole groups from the front while the remaining ones still cover maxDuration
+  private evictExpiredGroups(): void {
+    const newest = this.newestTimestamp;
+    if (newest === null) return;
+
+    while (this.groups.length > 1 && newest - this.groups[1].keyTimestamp >= this.options.maxDuration) {
+      const evicted = this.groups.shift();
+      this.options.onEvict?.(evicted.chunks);
+      this.chunkCount -= evicted.chunks.length;
+      this.totalBytes -= evicted.chunks.reduce((total, stored) => total + stored.chunk.byteLength, 0);
+      if (this.isHeld(evicted)) {
+        this.heldGroups.push(evicted);
+      } else {
+        this.cursors.forEach(cursor => cursor.forgetGroup(evicted));
+      }
+    }
+  }
+
+  private isHeld(group: GroupOfPictures): boolean {
+    const lastTimestamp = group.chunks[group.chunks.length - 1].timestamp;
+    return [...this.holds].some(range => group.keyTimestamp <= range.to && lastTimestamp >= range.from);
+  }
+
+  // Held groups are older than the buffer's own, so they're searched as if they came just before it
+  private locate(time: number): GroupLocation | null {
+    const groups = this.heldGroups.length > 0 ? [...this.heldGroups, ...this.groups] : this.groups;
+    if (groups.length === 0) return null;
+
+    // Last group whose keyframe is at or before `time`
+    let low = 0;
+    let high = groups.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (groups[mid].keyTimestamp <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const group = groups[low];
+    let index = 0;
+    while (index < group.chunks.length - 1 && group.chunks[index + 1].timestamp <= time) {
+      index++;
+    }
+
+    // Snap forward when the next chunk is closer, unless that would cross into the next group
+    const next = group.chunks[index + 1];
+    if (next && next.timestamp - time < time - group.chunks[index].timestamp) {
+      index++;
+    }
+
+    return { group, index };
+  }
+
+  // Also drops the cursors' decoders, since their configuration comes from the encoder's output
+  private resetEncoder(): void {
+    if (this.encoder && this.encoder.state !== 'closed') {
+      this.encoder.close();
+    }
+    this.cursors.forEach(cursor => cursor.close());
+    this.encoder = null;
+    this.encoderConfig = null;
+    this.decoderConfig = null;
+    this.activeCodec = null;
+  }
+}
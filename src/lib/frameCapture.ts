@@ -0,0 +1,103 @@
+import type { FrameSize } from '@/lib/frameStorage';
+
+export interface CaptureWorkerRequest {
+  bitmap: ImageBitmap;
+  timestamp: number;
+  type: string;
+  quality: number;
+}
+
+export type CaptureWorkerResponse =
+  | { type: 'frame'; blob: Blob; timestamp: number }
+  | { type: 'error'; timestamp: number; message: string };
+
+export interface WorkerFrameEncoderOptions {
+  onFrame: (blob: Blob, timestamp: number) => void;
+  onError?: (error: Error) => void;
+  type?: string;
+  quality?: number;
+}
+
+// Frames handed to the worker but not back yet; beyond this we drop frames instead of queueing
+const MAX_FRAMES_IN_FLIGHT = 3;
+
+export const isWorkerCaptureSupported = (): boolean => {
+  return typeof Worker !== 'undefined' &&
+         typeof OffscreenCanvas !== 'undefined' &&
+         typeof createImageBitmap === 'function' &&
+         'convertToBlob' in OffscreenCanvas.prototype;
+};
+
+/**
+ * Compresses captured frames in a dedicated worker. The main thread only grabs an
+ * ImageBitmap from the video element and transfers it; drawing and JPEG encoding
+ * happen on an OffscreenCanvas in the worker, which sends back the encoded Blob.
+ */
+export class WorkerFrameEncoder {
+  private worker: Worker;
+  private options: WorkerFrameEncoderOptions;
+  private framesInFlight = 0;
+  private closed = false;
+
+  constructor(options: WorkerFrameEncoderOptions) {
+    this.options = { type: 'image/jpeg', quality: 0.8, ...options };
+    this.worker = new Worker(new URL('../workers/captureWorker.ts', import.meta.url), { type: 'module' });
+
+    this.worker.onmessage = (event: MessageEvent<CaptureWorkerResponse>) => {
+      this.framesInFlight--;
+      const response = event.data;
+      if (response.type === 'frame') {
+        this.options.onFrame(response.blob, response.timestamp);
+      } else {
+        this.options.onError?.(new Error(response.message));
+      }
+    };
+
+    this.worker.onerror = (event) => {
+      this.options.onError?.(new Error(event.message || 'Capture worker failed'));
+    };
+  }
+
+  /**
+   * Returns false when the frame was dropped because the worker is still busy.
+   * When `size` is given the bitmap is scaled while it is grabbed, so only the
+   * smaller image is transferred and compressed.
+   */
+  async capture(source: HTMLVideoElement, timestamp: number, size?: FrameSize): Promise<boolean> {
+    if (this.closed || this.framesInFlight >= MAX_FRAMES_IN_FLIGHT) return false;
+
+    this.framesInFlight++;
+    try {
+      const bitmap = size
+        ? await createImageBitmap(source, { resizeWidth: size.width, resizeHeight: size.height, resizeQuality: 'medium' })
+        : await createImageBitmap(source);
+      if (this.closed) {
+        bitmap.close();
+        return false;
+      }
+
+      const request: CaptureWorkerRequest = {
+        bitmap,
+        timestamp,
+        type: this.options.type,
+        quality: this.options.quality
+      };
+      this.worker.postMessage(request, [bitmap]);
+      return true;
+    } catch (error) {
+      this.framesInFlight--;
+      this.options.onError?.(error as Error);
+      return false;
+    }
+  }
+
+  setOutput(type: string, quality: number): void {
+    this.options.type = type;
+    this.options.quality = quality;
+  }
+
+  close(): void {
+    this.closed = true;
+    this.worker.terminate();
+  }
+}
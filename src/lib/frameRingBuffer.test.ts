@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FrameRingBuffer, type TimestampedEntry } from '@/lib/frameRingBuffer';
+
+const entry = (timestamp: number): TimestampedEntry => ({ timestamp, close: vi.fn() });
+
+const fill = (buffer: FrameRingBuffer<TimestampedEntry>, timestamps: number[]) => {
+  const entries = timestamps.map(entry);
+  entries.forEach(item => buffer.push(item));
+  return entries;
+};
+
+describe('FrameRingBuffer', () => {
+  it('evicts and closes the oldest entry once full', () => {
+    const buffer = new FrameRingBuffer<TimestampedEntry>(3);
+    const [first] = fill(buffer, [0, 10, 20, 30]);
+
+    expect(first.close).toHaveBeenCalled();
+    expect(buffer.toArray().map(item => item.timestamp)).toEqual([10, 20, 30]);
+    expect(buffer.nearest(0)?.timestamp).toBe(10);
+  });
+
+  it('keeps held entries readable after eviction until released', () => {
+    const buffer = new FrameRingBuffer<TimestampedEntry>(3);
+    const entries = fill(buffer, [0, 10, 20]);
+    const release = buffer.hold(10, 20);
+    fill(buffer, [30, 40, 50]);
+
+    expect(entries[0].close).toHaveBeenCalled();
+    expect(entries[1].close).not.toHaveBeenCalled();
+    expect(buffer.getHeld().map(item => item.timestamp)).toEqual([10, 20]);
+    expect(buffer.toArray().map(item => item.timestamp)).toEqual([30, 40, 50]);
+    expect(buffer.nearest(12)?.timestamp).toBe(10);
+    expect(buffer.nearest(26)?.timestamp).toBe(30);
+
+    release();
+    expect(entries[1].close).toHaveBeenCalled();
+    expect(buffer.getHeld()).toEqual([]);
+    expect(buffer.nearest(12)?.timestamp).toBe(30);
+  });
+
+  it('keeps an entry until every hold covering it is released', () => {
+    const buffer = new FrameRingBuffer<TimestampedEntry>(2);
+    const entries = fill(buffer, [0, 10]);
+    const releaseFirst = buffer.hold(0, 10);
+    const releaseSecond = buffer.hold(10, 40);
+    fill(buffer, [20, 30, 40]);
+
+    expect(buffer.getHeld().map(item => item.timestamp)).toEqual([0, 10, 20]);
+    releaseFirst();
+    expect(entries[0].close).toHaveBeenCalled();
+    expect(entries[1].close).not.toHaveBeenCalled();
+    expect(buffer.getHeld().map(item => item.timestamp)).toEqual([10, 20]);
+
+    releaseSecond();
+    expect(buffer.getHeld()).toEqual([]);
+  });
+});
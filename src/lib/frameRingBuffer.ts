@@ -0,0 +1,189 @@
+export interface Closeable {
+  close(): void;
+}
+
+export interface TimestampedEntry extends Closeable {
+  // performance.now() at the moment the frame was captured
+  readonly timestamp: number;
+}
+
+// Capture times, inclusive, whose entries outlive eviction
+export interface HoldRange {
+  from: number;
+  to: number;
+}
+
+export interface CapturedFrame extends TimestampedEntry {
+  readonly blob: Blob;
+}
+
+// Wraps an encoded frame; views decode the blob when drawing, so there's nothing to release
+export const createCapturedFrame = (blob: Blob, timestamp: number): CapturedFrame => ({
+  blob,
+  timestamp,
+  close: () => {}
+});
+
+/**
+ * Fixed-capacity ring buffer. Appending to a full buffer evicts (and closes)
+ * the oldest entry in O(1), so nothing is copied per captured frame.
+ */
+export class FrameRingBuffer<T extends TimestampedEntry> {
+  private slots: Array<T | undefined>;
+  private head = 0; // index of the oldest entry
+  private size = 0;
+  // Called with each entry pushed out by a newer one, just before it is closed
+  private onEvict?: (item: T) => void;
+  // Evicted entries captured in any of these ranges are kept, oldest first, until released
+  private holds = new Set<HoldRange>();
+  private held: T[] = [];
+
+  constructor(capacity: number, onEvict?: (item: T) => void) {
+    this.slots = new Array(Math.max(1, Math.floor(capacity)));
+    this.onEvict = onEvict;
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  get capacity(): number {
+    return this.slots.length;
+  }
+
+  push(item: T): void {
+    const capacity = this.slots.length;
+
+    if (this.size === capacity) {
+      // Full: overwrite the oldest slot and move the head forward
+      this.evict(this.slots[this.head]);
+      this.slots[this.head] = item;
+      this.head = (this.head + 1) % capacity;
+      return;
+    }
+
+    this.slots[(this.head + this.size) % capacity] = item;
+    this.size++;
+  }
+
+  // 0 is the oldest entry, length - 1 the newest
+  at(index: number): T | undefined {
+    if (index < 0 || index >= this.size) return undefined;
+    return this.slots[(this.head + index) % this.slots.length];
+  }
+
+  newest(): T | undefined {
+    return this.at(this.size - 1);
+  }
+
+  oldest(): T | undefined {
+    return this.at(0);
+  }
+
+  // Time covered by the buffer, in milliseconds
+  get duration(): number {
+    if (this.size < 2) return 0;
+    return this.newest().timestamp - this.oldest().timestamp;
+  }
+
+  /**
+   * Binary search for the entry captured closest to `time`; timestamps are
+   * monotonic. Held entries are older than the buffer's own, so they're
+   * searched as if they came just before it.
+   */
+  nearest(time: number): T | undefined {
+    const heldCount = this.held.length;
+    const entryAt = (index: number) => index < heldCount ? this.held[index] : this.at(index - heldCount);
+    const count = heldCount + this.size;
+    if (count === 0) return undefined;
+
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (entryAt(mid).timestamp < time) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    // `low` is the first entry at or after `time`; the one before may be closer
+    if (low > 0 && time - entryAt(low - 1).timestamp <= entryAt(low).timestamp - time) {
+      return entryAt(low - 1);
+    }
+    return entryAt(low);
+  }
+
+  /**
+   * Keeps entries captured between `from` and `to` readable through `nearest`
+   * after newer ones push them out. Holds can overlap; each lasts until the
+   * returned function is called.
+   */
+  hold(from: number, to: number): () => void {
+    const range = { from, to };
+    this.holds.add(range);
+    return () => {
+      if (!this.holds.delete(range)) return;
+      this.held = this.held.filter(item => {
+        if (this.isHeld(item)) return true;
+        item.close();
+        return false;
+      });
+    };
+  }
+
+  // Entries kept by the hold after eviction, oldest first
+  getHeld(): T[] {
+    return [...this.held];
+  }
+
+  // Resizing is O(n) but only happens when the buffer settings change
+  setCapacity(capacity: number): void {
+    const nextCapacity = Math.max(1, Math.floor(capacity));
+    if (nextCapacity === this.slots.length) return;
+
+    const items = this.toArray();
+    const overflow = Math.max(0, items.length - nextCapacity);
+    items.slice(0, overflow).forEach(item => this.evict(item));
+
+    this.slots = new Array(nextCapacity);
+    this.head = 0;
+    this.size = 0;
+    items.slice(overflow).forEach(item => this.push(item));
+  }
+
+  private evict(item: T | undefined): void {
+    if (!item) return;
+    this.onEvict?.(item);
+    if (this.isHeld(item)) {
+      this.held.push(item);
+      return;
+    }
+    item.close();
+  }
+
+  private isHeld(item: T): boolean {
+    return [...this.holds].some(range => item.timestamp >= range.from && item.timestamp <= range.to);
+  }
+
+  toArray(): T[] {
+    const items: T[] = [];
+    for (let i = 0; i < this.size; i++) {
+      items.push(this.at(i) as T);
+    }
+    return items;
+  }
+
+  clear(): void {
+    this.held.forEach(item => item.close());
+    this.held = [];
+    this.holds.clear();
+    for (let i = 0; i < this.size; i++) {
+      this.at(i)?.close();
+    }
+    this.slots = new Array(this.slots.length);
+    this.head = 0;
+    this.size = 0;
+  }
+}
@@ -0,0 +1,65 @@
+export type CaptureResolution = '720p' | '1080p';
+// Size of stored buffer frames, relative to the camera frame or as a fixed height
+export type StorageScale = 'full' | 'half' | 'quarter' | '480p' | '360p';
+export type ImageFormat = 'jpeg' | 'webp';
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export const STORAGE_SCALES: Array<{ value: StorageScale; label: string }> = [
+  { value: 'full', label: 'Full' },
+  { value: 'half', label: '1/2' },
+  { value: 'quarter', label: '1/4' },
+  { value: '480p', label: '480p' },
+  { value: '360p', label: '360p' }
+];
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+export const CAMERA_FRAME_SIZES: Record<CaptureResolution, FrameSize> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 }
+};
+
+// Encoders need even dimensions
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export const getStorageSize = (camera: FrameSize, scale: StorageScale): FrameSize => {
+  let factor = 1;
+  if (scale === 'half') factor = 0.5;
+  if (scale === 'quarter') factor = 0.25;
+  if (scale === '480p') factor = Math.min(1, 480 / camera.height);
+  if (scale === '360p') factor = Math.min(1, 360 / camera.height);
+
+  return {
+    width: toEven(camera.width * factor),
+    height: toEven(camera.height * factor)
+  };
+};
+
+// The next smaller storage size, or null when already at the smallest
+export const getSmallerStorageScale = (camera: FrameSize, scale: StorageScale): StorageScale | null => {
+  const currentPixels = getStorageSize(camera, scale).height;
+  const smaller = STORAGE_SCALES
+    .map(({ value }) => ({ value, height: getStorageSize(camera, value).height }))
+    .filter(candidate => candidate.height < currentPixels)
+    .sort((a, b) => b.height - a.height);
+  return smaller.length > 0 ? smaller[0].value : null;
+};
+
+let webpSupported: boolean | null = null;
+
+// Safari can decode WebP but not encode it from a canvas
+export const isWebPEncodingSupported = (): boolean => {
+  if (webpSupported === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupported;
+};
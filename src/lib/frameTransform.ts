@@ -0,0 +1,123 @@
+import type { FrameSize } from '@/lib/frameStorage';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// 'cover' fills the view and crops, 'contain' shows the whole frame with bars
+export type FitMode = 'cover' | 'contain';
+
+// How a camera's frames are shown and exported. Mirroring is applied before rotating.
+export interface FrameTransform {
+  mirror: boolean;
+  // Clockwise, in degrees
+  rotation: Rotation;
+  // Only affects how views are fitted on screen; exports always keep the whole frame
+  fit: FitMode;
+}
+
+export const DEFAULT_FRAME_TRANSFORM: FrameTransform = {
+  mirror: false,
+  rotation: 0,
+  fit: 'cover'
+};
+
+export const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+// The transform of the camera that captured frames from `from` on, until the next segment starts
+export interface TransformSegment {
+  from: number;
+  transform: FrameTransform;
+}
+
+const STORAGE_KEY = 'camera-transforms';
+
+// Whether drawing through the transform changes any pixels
+export const isIdentityTransform = (transform: FrameTransform): boolean => {
+  return !transform.mirror && transform.rotation === 0;
+};
+
+// Size of a frame once rotated
+export const getTransformedSize = (size: FrameSize, transform: FrameTransform): FrameSize => {
+  return transform.rotation === 90 || transform.rotation === 270
+    ? { width: size.height, height: size.width }
+    : size;
+};
+
+/**
+ * Draws `source` (sized `width`×`height`) through the transform, filling a
+ * context whose canvas has the transformed size.
+ */
+export const drawTransformed = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  transform: FrameTransform
+) => {
+  const size = getTransformedSize({ width, height }, transform);
+  ctx.save();
+  ctx.translate(size.width / 2, size.height / 2);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  if (transform.mirror) {
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  ctx.restore();
+};
+
+// Transform for a frame captured at `time`, or `fallback` when no segment covers it
+export const getTransformAt = (segments: TransformSegment[], time: number, fallback: FrameTransform): FrameTransform => {
+  let transform = fallback;
+  for (const segment of segments) {
+    if (segment.from > time) break;
+    transform = segment.transform;
+  }
+  return transform;
+};
+
+/**
+ * CSS transform for an element showing untransformed frames in a 16:9 box,
+ * such as the live `<video>`. Quarter turns are scaled so the turned frame
+ * still fits (contain) or fills (cover) the box.
+ */
+export const getCssTransform = (transform: FrameTransform): string => {
+  const parts = [`rotate(${transform.rotation}deg)`];
+  if (transform.rotation === 90 || transform.rotation === 270) {
+    parts.push(`scale(${transform.fit === 'contain' ? 9 / 16 : 16 / 9})`);
+  }
+  if (transform.mirror) {
+    parts.push('scaleX(-1)');
+  }
+  return parts.join(' ');
+};
+
+// Identifies a camera across sessions: its device id when known, otherwise the way it faces
+export const getCameraKey = (track: MediaStreamTrack | undefined, facingMode: string): string => {
+  const deviceId = track?.getSettings().deviceId;
+  return deviceId ? `device:${deviceId}` : `facing:${facingMode}`;
+};
+
+// Front cameras default to mirrored, the way people expect to see themselves
+export const getDefaultTransform = (facingMode: string): FrameTransform => {
+  return { ...DEFAULT_FRAME_TRANSFORM, mirror: facingMode === 'user' };
+};
+
+const readStoredTransforms = (): Record<string, FrameTransform> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadCameraTransform = (cameraKey: string, facingMode: string): FrameTransform => {
+  return { ...getDefaultTransform(facingMode), ...readStoredTransforms()[cameraKey] };
+};
+
+export const saveCameraTransform = (cameraKey: string, transform: FrameTransform) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStoredTransforms(), [cameraKey]: transform }));
+  } catch (error) {
+    // Private browsing can refuse storage; the transform still applies for this session
+    console.error('Error saving camera transform:', error);
+  }
+};
@@ -0,0 +1,101 @@
+import { STORAGE_SCALES, getSmallerStorageScale, type FrameSize, type StorageScale } from '@/lib/frameStorage';
+
+export interface BufferSettings {
+  imageQuality: number;
+  storageScale: StorageScale;
+  cameraSize: FrameSize;
+  bufferSeconds: number;
+}
+
+export interface DegradationOptions {
+  // Image quality only affects the image buffer; encoded buffers are sized by bitrate
+  canLowerQuality: boolean;
+  // Encoded buffers keep the frame size the encoder was configured with
+  canLowerResolution: boolean;
+}
+
+export type DegradationStep =
+  | { kind: 'quality'; from: number; to: number }
+  | { kind: 'resolution'; from: StorageScale; to: StorageScale }
+  | { kind: 'bufferSeconds'; from: number; to: number };
+
+export const MIN_IMAGE_QUALITY = 0.4;
+export const MIN_BUFFER_SECONDS = 5;
+const QUALITY_STEP = 0.2;
+
+const MEGABYTE = 1024 * 1024;
+
+// Share of device memory we allow the delay buffer to use
+const DEVICE_MEMORY_SHARE = 0.1;
+const MIN_BUDGET_BYTES = 128 * MEGABYTE;
+const MAX_BUDGET_BYTES = 1024 * MEGABYTE;
+// navigator.deviceMemory is Chromium-only; assume a mid-range phone elsewhere
+const DEFAULT_DEVICE_MEMORY_GB = 4;
+
+export const getMemoryBudgetBytes = (): number => {
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? DEFAULT_DEVICE_MEMORY_GB;
+  const budget = deviceMemory * 1024 * MEGABYTE * DEVICE_MEMORY_SHARE;
+  return Math.min(MAX_BUDGET_BYTES, Math.max(MIN_BUDGET_BYTES, budget));
+};
+
+// Rough per-frame size before any frames have been measured; encoded matches the encoder's bitrate
+export const estimateFrameBytes = (size: FrameSize, imageQuality: number, encoded: boolean): number => {
+  const pixels = size.width * size.height;
+  return encoded ? pixels * 0.1 / 8 : pixels * imageQuality * 0.2;
+};
+
+export const predictBufferBytes = (bytesPerFrame: number, frameRate: number, bufferSeconds: number): number => {
+  return bytesPerFrame * frameRate * bufferSeconds;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * MEGABYTE) {
+    return `${(bytes / (1024 * MEGABYTE)).toFixed(1)} GB`;
+  }
+  return `${Math.round(bytes / MEGABYTE)} MB`;
+};
+
+/**
+ * Picks the next, least noticeable step to bring the predicted buffer size under
+ * budget: image quality first, then stored frame size, then buffer length.
+ * The live camera feed is never touched.
+ * Returns null when the prediction already fits.
+ */
+export const planDegradation = (
+  settings: BufferSettings,
+  predictedBytes: number,
+  budgetBytes: number,
+  options: DegradationOptions
+): DegradationStep | null => {
+  if (predictedBytes <= budgetBytes) return null;
+
+  if (options.canLowerQuality && settings.imageQuality - QUALITY_STEP >= MIN_IMAGE_QUALITY - 1e-6) {
+    const to = Math.round((settings.imageQuality - QUALITY_STEP) * 100) / 100;
+    return { kind: 'quality', from: settings.imageQuality, to };
+  }
+
+  const smallerScale = options.canLowerResolution
+    ? getSmallerStorageScale(settings.cameraSize, settings.storageScale)
+    : null;
+  if (smallerScale) {
+    return { kind: 'resolution', from: settings.storageScale, to: smallerScale };
+  }
+
+  const fittingSeconds = Math.floor(settings.bufferSeconds * budgetBytes / predictedBytes);
+  const to = Math.max(MIN_BUFFER_SECONDS, fittingSeconds);
+  if (to >= settings.bufferSeconds) return null;
+  return { kind: 'bufferSeconds', from: settings.bufferSeconds, to };
+};
+
+export const describeDegradation = (step: DegradationStep): string => {
+  switch (step.kind) {
+    case 'quality':
+      return `Lowered image quality from ${Math.round(step.from * 100)}% to ${Math.round(step.to * 100)}%.`;
+    case 'resolution': {
+      const label = (scale: StorageScale) => STORAGE_SCALES.find(option => option.value === scale)?.label ?? scale;
+      return `Lowered stored frame size from ${label(step.from)} to ${label(step.to)}.`;
+    }
+    case 'bufferSeconds':
+      return `Shortened the buffer from ${step.from}s to ${step.to}s.`;
+  }
+};
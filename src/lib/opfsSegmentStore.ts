@@ -0,0 +1,291 @@
+export interface SpilledEntry {
+  // Capture time in milliseconds (performance.now() clock)
+  timestamp: number;
+  // JPEG frames are always 'key'; encoded chunks keep their WebCodecs type
+  type: 'key' | 'delta';
+  data: Blob;
+}
+
+export interface OpfsSegmentStoreOptions {
+  // How much history to keep on disk, in milliseconds
+  maxDuration: number;
+  // Target length of each segment file, in milliseconds
+  segmentDuration?: number;
+  onError?: (error: Error) => void;
+}
+
+interface SegmentIndexEntry {
+  timestamp: number;
+  type: 'key' | 'delta';
+  offset: number;
+  size: number;
+}
+
+// One file on disk. While a segment is still filling or being written its data
+// stays in memory, so reads never miss entries that are in flight.
+interface Segment {
+  fileName: string;
+  entries: SegmentIndexEntry[];
+  byteLength: number;
+  pendingData: Blob[] | null;
+  handle: FileSystemFileHandle | null;
+  sealed: boolean;
+  removed: boolean;
+}
+
+const DIRECTORY_NAME = 'delay-buffer';
+
+export const isOpfsSupported = (): boolean => {
+  return typeof navigator !== 'undefined' &&
+         typeof navigator.storage?.getDirectory === 'function' &&
+         typeof FileSystemFileHandle !== 'undefined' &&
+         'createWritable' in FileSystemFileHandle.prototype;
+};
+
+/**
+ * Disk-backed overflow for the delay buffer, using the Origin Private File System.
+ * Entries evicted from the in-memory buffer are appended here in keyframe-aligned
+ * segment files so older history can still be played back and exported.
+ */
+export class OpfsSegmentStore {
+  private options: OpfsSegmentStoreOptions;
+  private directory: FileSystemDirectoryHandle | null = null;
+  private segments: Segment[] = [];
+  private nextSegmentId = 0;
+  // Writes and deletes run one at a time, in order
+  private fileQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: OpfsSegmentStoreOptions) {
+    this.options = { segmentDuration: 10000, ...options };
+  }
+
+  get length(): number {
+    return this.segments.reduce((total, segment) => total + segment.entries.length, 0);
+  }
+
+  get byteLength(): number {
+    return this.segments.reduce((total, segment) => total + segment.byteLength, 0);
+  }
+
+  get oldestTimestamp(): number | null {
+    return this.segments.length > 0 ? this.segments[0].entries[0].timestamp : null;
+  }
+
+  get newestTimestamp(): number | null {
+    const lastSegment = this.segments[this.segments.length - 1];
+    return lastSegment ? lastSegment.entries[lastSegment.entries.length - 1].timestamp : null;
+  }
+
+  // Capture time of every stored entry, oldest first, without reading from disk
+  get timestamps(): number[] {
+    return this.segments.flatMap(segment => segment.entries.map(entry => entry.timestamp));
+  }
+
+  // Time covered by the stored entries, in milliseconds
+  get duration(): number {
+    if (this.oldestTimestamp === null) return 0;
+    return this.newestTimestamp - this.oldestTimestamp;
+  }
+
+  // Starts a fresh session directory, discarding anything left from an earlier one
+  async open(): Promise<boolean> {
+    if (!isOpfsSupported()) return false;
+
+    try {
+      const root = await navigator.storage.getDirectory();
+      await root.removeEntry(DIRECTORY_NAME, { recursive: true }).catch(() => undefined);
+      this.directory = await root.getDirectoryHandle(DIRECTORY_NAME, { create: true });
+      return true;
+    } catch (error) {
+      this.options.onError?.(error as Error);
+      return false;
+    }
+  }
+
+  setMaxDuration(maxDuration: number): void {
+    this.options.maxDuration = maxDuration;
+    this.evictExpiredSegments();
+  }
+
+  append(entry: SpilledEntry): void {
+    if (!this.directory) return;
+
+    let segment = this.segments[this.segments.length - 1];
+    const segmentStart = segment?.entries[0].timestamp;
+
+    // Only cut segments at keyframes so each file can be decoded on its own
+    if (!segment || segment.sealed ||
+        (entry.type === 'key' && entry.timestamp - segmentStart >= this.options.segmentDuration)) {
+      if (segment && !segment.sealed) {
+        this.seal(segment);
+      }
+      // A segment can't start with a delta chunk: nothing could decode it
+      if (entry.type === 'delta') return;
+
+      segment = {
+        fileName: `segment-${this.nextSegmentId++}.bin`,
+        entries: [],
+        byteLength: 0,
+        pendingData: [],
+        handle: null,
+        sealed: false,
+        removed: false
+      };
+      this.segments.push(segment);
+    }
+
+    segment.entries.push({
+      timestamp: entry.timestamp,
+      type: entry.type,
+      offset: segment.byteLength,
+      size: entry.data.size
+    });
+    segment.pendingData.push(entry.data);
+    segment.byteLength += entry.data.size;
+
+    this.evictExpiredSegments();
+  }
+
+  // The last keyframe captured at or before `time`, found from the index without reading any files
+  keyFrameTimestampBefore(time: number): number | null {
+    let found: number | null = null;
+    for (const segment of this.segments) {
+      for (const entry of segment.entries) {
+        if (entry.timestamp > time) return found;
+        if (entry.type === 'key') found = entry.timestamp;
+      }
+    }
+    return found;
+  }
+
+  // Entries captured between `from` and `to` (inclusive), oldest first
+  async entriesBetween(from: number, to: number): Promise<SpilledEntry[]> {
+    const entries: SpilledEntry[] = [];
+
+    for (const segment of [...this.segments]) {
+      for (let i = 0; i < segment.entries.length; i++) {
+        const { timestamp } = segment.entries[i];
+        if (timestamp < from || timestamp > to) continue;
+        entries.push(await this.readEntry(segment, i));
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Everything needed to show the entry nearest `time`: the preceding keyframe and
+   * the delta chunks up to that entry. For JPEG frames this is a single entry.
+   */
+  async entriesForFrameAt(time: number): Promise<SpilledEntry[]> {
+    const segment = [...this.segments].reverse().find(candidate => candidate.entries[0].timestamp <= time);
+    if (!segment) return [];
+
+    let index = 0;
+    while (index < segment.entries.length - 1 && segment.entries[index + 1].timestamp <= time) {
+      index++;
+    }
+    const next = segment.entries[index + 1];
+    if (next && next.timestamp - time < time - segment.entries[index].timestamp) {
+      index++;
+    }
+
+    let keyIndex = index;
+    while (keyIndex > 0 && segment.entries[keyIndex].type !== 'key') {
+      keyIndex--;
+    }
+
+    const entries: SpilledEntry[] = [];
+    for (let i = keyIndex; i <= index; i++) {
+      entries.push(await this.readEntry(segment, i));
+    }
+    return entries;
+  }
+
+  // Drops every stored entry but keeps the store open for new ones
+  clear(): void {
+    const segments = this.segments;
+    this.segments = [];
+    segments.forEach(segment => {
+      segment.removed = true;
+      if (segment.handle) {
+        this.enqueue(async () => {
+          await this.directory?.removeEntry(segment.fileName);
+        });
+      }
+    });
+  }
+
+  // Deletes the session directory and everything in it
+  async close(): Promise<void> {
+    const directory = this.directory;
+    this.directory = null;
+    this.segments = [];
+
+    await this.fileQueue;
+    if (!directory) return;
+
+    try {
+      const root = await navigator.storage.getDirectory();
+      await root.removeEntry(DIRECTORY_NAME, { recursive: true });
+    } catch (error) {
+      this.options.onError?.(error as Error);
+    }
+  }
+
+  private async readEntry(segment: Segment, index: number): Promise<SpilledEntry> {
+    const { timestamp, type, offset, size } = segment.entries[index];
+
+    if (segment.pendingData) {
+      return { timestamp, type, data: segment.pendingData[index] };
+    }
+
+    // Slicing the file is lazy, so only the bytes that are used get read
+    const file = await segment.handle.getFile();
+    return { timestamp, type, data: file.slice(offset, offset + size) };
+  }
+
+  private seal(segment: Segment): void {
+    segment.sealed = true;
+
+    this.enqueue(async () => {
+      if (segment.removed || !this.directory) return;
+
+      const handle = await this.directory.getFileHandle(segment.fileName, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(new Blob(segment.pendingData));
+      await writable.close();
+
+      segment.handle = handle;
+      segment.pendingData = null;
+
+      // Evicted while it was being written
+      if (segment.removed) {
+        await this.directory?.removeEntry(segment.fileName);
+      }
+    });
+  }
+
+  // Drop whole segments from the front while the remaining ones still cover maxDuration
+  private evictExpiredSegments(): void {
+    const newest = this.newestTimestamp;
+    if (newest === null) return;
+
+    while (this.segments.length > 1 &&
+           newest - this.segments[1].entries[0].timestamp >= this.options.maxDuration) {
+      const evicted = this.segments.shift();
+      evicted.removed = true;
+      if (evicted.handle) {
+        this.enqueue(async () => {
+          await this.directory?.removeEntry(evicted.fileName);
+        });
+      }
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.fileQueue = this.fileQueue
+      .then(task)
+      .catch(error => this.options.onError?.(error as Error));
+  }
+}
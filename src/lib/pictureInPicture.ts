@@ -0,0 +1,54 @@
+// Document Picture-in-Picture is Chromium-only and not in TypeScript's DOM types yet
+interface DocumentPictureInPicture {
+  requestWindow(options?: { width?: number; height?: number }): Promise<Window>;
+  readonly window: Window | null;
+}
+
+const getDocumentPictureInPicture = (): DocumentPictureInPicture | null => {
+  return (window as Window & { documentPictureInPicture?: DocumentPictureInPicture }).documentPictureInPicture ?? null;
+};
+
+// A floating window that can hold controls as well as the video
+export const isDocumentPictureInPictureSupported = (): boolean => {
+  return getDocumentPictureInPicture() !== null;
+};
+
+export const isPictureInPictureSupported = (): boolean => {
+  const canCaptureCanvas = typeof HTMLCanvasElement.prototype.captureStream === 'function';
+  return canCaptureCanvas && (isDocumentPictureInPictureSupported() || document.pictureInPictureEnabled === true);
+};
+
+// Copies the page's stylesheets so components rendered into the window look the same
+const copyStyles = (target: Document) => {
+  [...document.styleSheets].forEach(styleSheet => {
+    try {
+      const style = target.createElement('style');
+      style.textContent = [...styleSheet.cssRules].map(rule => rule.cssText).join('\n');
+      target.head.appendChild(style);
+    } catch {
+      // Cross-origin sheets can't be read, but can still be linked
+      if (!styleSheet.href) return;
+      const link = target.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = styleSheet.href;
+      target.head.appendChild(link);
+    }
+  });
+  target.documentElement.className = document.documentElement.className;
+};
+
+/**
+ * Opens a Document Picture-in-Picture window styled like this page. A page
+ * can only have one open; opening another closes the first. The window fires
+ * `pagehide` when it closes, however it was closed.
+ */
+export const openPictureInPictureWindow = async (width: number, height: number): Promise<Window> => {
+  const documentPictureInPicture = getDocumentPictureInPicture();
+  if (!documentPictureInPicture) {
+    throw new Error('Document Picture-in-Picture is not supported');
+  }
+
+  const pipWindow = await documentPictureInPicture.requestWindow({ width, height });
+  copyStyles(pipWindow.document);
+  return pipWindow;
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { recorderReducer, initialRecorderState, canSend, type RecorderEvent, type RecorderState } from '@/lib/recorderMachine';
+
+const run = (events: RecorderEvent[], state: RecorderState = initialRecorderState) => {
+  return events.reduce(recorderReducer, state);
+};
+
+const streaming = run([{ type: 'START' }, { type: 'STREAM_READY' }]);
+
+describe('recorderReducer', () => {
+  it('accepts START from idle and error only', () => {
+    expect(run([{ type: 'START' }]).status).toBe('requesting');
+
+    const failed = run([{ type: 'START' }, { type: 'FAIL', message: 'No camera' }]);
+    expect(failed.status).toBe('error');
+    expect(run([{ type: 'START' }], failed).status).toBe('requesting');
+
+    for (const state of [streaming, run([{ type: 'START' }]), run([{ type: 'PAUSE' }], streaming)]) {
+      expect(canSend(state, 'START')).toBe(false);
+      expect(recorderReducer(state, { type: 'START' })).toBe(state);
+    }
+  });
+
+  it('ignores a second STOP', () => {
+    const stopping = run([{ type: 'STOP' }], streaming);
+    expect(stopping.status).toBe('stopping');
+    expect(recorderReducer(stopping, { type: 'STOP' })).toBe(stopping);
+
+    const stopped = run([{ type: 'STOPPED' }], stopping);
+    expect(stopped.status).toBe('idle');
+    expect(recorderReducer(stopped, { type: 'STOP' })).toBe(stopped);
+  });
+
+  it('lets STOP cancel a pending camera request', () => {
+    const cancelled = run([{ type: 'START' }, { type: 'STOP' }, { type: 'STOPPED' }]);
+    expect(cancelled.status).toBe('idle');
+    // The request resolving late doesn't bring the stream back
+    expect(recorderReducer(cancelled, { type: 'STREAM_READY' })).toBe(cancelled);
+  });
+
+  it('marks permission denied when FAIL says so', () => {
+    const denied = run([{ type: 'START' }, { type: 'FAIL', message: 'Denied', permissionDenied: true }]);
+    expect(denied).toMatchObject({ status: 'error', permission: 'denied', errorMessage: 'Denied' });
+
+    const other = run([{ type: 'START' }, { type: 'FAIL', message: 'Busy' }]);
+    expect(other.permission).toBe('unknown');
+    expect(run([{ type: 'START' }], other).errorMessage).toBeNull();
+  });
+
+  it('tracks saving alongside the stream status', () => {
+    const saving = run([{ type: 'SAVE_STARTED' }], streaming);
+    expect(saving).toMatchObject({ status: 'streaming', isSaving: true });
+
+    // A second save is rejected while one is running
+    expect(canSend(saving, 'SAVE_STARTED')).toBe(false);
+    expect(recorderReducer(saving, { type: 'SAVE_STARTED' })).toBe(saving);
+
+    // Saving can finish after the stream stopped
+    const finished = run([{ type: 'STOP' }, { type: 'STOPPED' }, { type: 'SAVE_FINISHED' }], saving);
+    expect(finished).toMatchObject({ status: 'idle', isSaving: false });
+  });
+
+  it('rejects saving while the camera is being requested', () => {
+    const requesting = run([{ type: 'START' }]);
+    expect(recorderReducer(requesting, { type: 'SAVE_STARTED' })).toBe(requesting);
+  });
+});
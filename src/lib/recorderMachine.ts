@@ -0,0 +1,104 @@
+// 'frozen' holds the delayed view while capture keeps filling the buffer; 'paused' stops both
+export type RecorderStatus = 'idle' | 'requesting' | 'streaming' | 'frozen' | 'paused' | 'stopping' | 'error';
+
+export type CameraPermission = 'unknown' | 'granted' | 'denied';
+
+export type RecorderEvent =
+  | { type: 'PERMISSION_CHECKED'; permission: CameraPermission }
+  | { type: 'START' }
+  | { type: 'STREAM_READY' }
+  | { type: 'FAIL'; message: string; permissionDenied?: boolean }
+  | { type: 'FREEZE' }
+  | { type: 'UNFREEZE' }
+  | { type: 'PAUSE' }
+  | { type: 'RESUME' }
+  | { type: 'STOP' }
+  | { type: 'STOPPED' }
+  | { type: 'SAVE_STARTED' }
+  | { type: 'SAVE_FINISHED' };
+
+export interface RecorderState {
+  status: RecorderStatus;
+  permission: CameraPermission;
+  // Saving runs alongside streaming or pausing rather than being a state of its own
+  isSaving: boolean;
+  errorMessage: string | null;
+}
+
+export const initialRecorderState: RecorderState = {
+  status: 'idle',
+  permission: 'unknown',
+  isSaving: false,
+  errorMessage: null
+};
+
+// Statuses each event is accepted in; anything else is ignored
+const ALLOWED_TRANSITIONS: Record<RecorderEvent['type'], RecorderStatus[]> = {
+  PERMISSION_CHECKED: ['idle', 'error'],
+  START: ['idle', 'error'],
+  STREAM_READY: ['requesting'],
+  FAIL: ['requesting', 'streaming', 'frozen', 'paused'],
+  FREEZE: ['streaming'],
+  UNFREEZE: ['frozen'],
+  PAUSE: ['streaming', 'frozen'],
+  RESUME: ['paused'],
+  // Stopping while the camera is still being requested cancels the request
+  STOP: ['requesting', 'streaming', 'frozen', 'paused', 'error'],
+  STOPPED: ['stopping'],
+  // Saving while idle exports a recovered recording
+  SAVE_STARTED: ['streaming', 'frozen', 'paused', 'idle', 'error'],
+  SAVE_FINISHED: ['streaming', 'frozen', 'paused', 'stopping', 'idle', 'error']
+};
+
+export const canSend = (state: RecorderState, type: RecorderEvent['type']): boolean => {
+  // Only one save runs at a time
+  if (type === 'SAVE_STARTED' && state.isSaving) return false;
+  return ALLOWED_TRANSITIONS[type].includes(state.status);
+};
+
+/**
+ * Recorder lifecycle: idle → requesting → streaming ⇄ frozen/paused → stopping → idle,
+ * with error reachable from requesting and from a running stream. Events that
+ * aren't allowed in the current status return the same state object, so a
+ * stray double click or a late callback can't restart or stop the stream twice.
+ */
+export const recorderReducer = (state: RecorderState, event: RecorderEvent): RecorderState => {
+  if (!canSend(state, event.type)) return state;
+
+  switch (event.type) {
+    case 'PERMISSION_CHECKED':
+      return { ...state, permission: event.permission };
+    case 'START':
+      return { ...state, status: 'requesting', errorMessage: null };
+    case 'STREAM_READY':
+      return { ...state, status: 'streaming', permission: 'granted', errorMessage: null };
+    case 'FAIL':
+      return {
+        ...state,
+        status: 'error',
+        errorMessage: event.message,
+        permission: event.permissionDenied ? 'denied' : state.permission
+      };
+    case 'FREEZE':
+      return { ...state, status: 'frozen' };
+    case 'UNFREEZE':
+      return { ...state, status: 'streaming' };
+    case 'PAUSE':
+      return { ...state, status: 'paused' };
+    case 'RESUME':
+      return { ...state, status: 'streaming' };
+    case 'STOP':
+      return { ...state, status: 'stopping' };
+    case 'STOPPED':
+      return { ...state, status: 'idle' };
+    case 'SAVE_STARTED':
+      return { ...state, isSaving: true };
+    case 'SAVE_FINISHED':
+      return { ...state, isSaving: false };
+  }
+};
+
+// A camera stream exists in all of these; capture runs while streaming or frozen
+export const hasActiveStream = (status: RecorderStatus): boolean => {
+  return status === 'streaming' || status === 'frozen' || status === 'paused';
+};
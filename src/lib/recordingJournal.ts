@@ -0,0 +1,213 @@
+import type { SpilledEntry } from '@/lib/opfsSegmentStore';
+import type { EncodedBufferCodec } from '@/lib/encodedFrameBuffer';
+import type { BufferGap } from '@/lib/bufferGaps';
+
+// Everything needed to play back or export stored entries without the engine that made them
+export interface RecordingInfo {
+  // 'encoded' entries are WebCodecs chunks, 'jpeg' entries are images
+  bufferMode: 'encoded' | 'jpeg';
+  codec: EncodedBufferCodec | null;
+  decoderConfig: VideoDecoderConfig | null;
+  width: number;
+  height: number;
+  frameRate: number;
+  gaps: BufferGap[];
+  // Wall-clock time of the newest entry, for showing when it was recorded
+  recordedAt: number;
+}
+
+// A finished (or interrupted) session's buffer, oldest entry first
+export interface RecoveredRecording extends RecordingInfo {
+  entries: SpilledEntry[];
+}
+
+export interface RecordingJournalOptions {
+  // How much history to keep, in milliseconds
+  maxDuration: number;
+  // Milliseconds between writes; a crash loses at most this much
+  flushInterval?: number;
+  onError?: (error: Error) => void;
+}
+
+interface JournalBatch {
+  id?: number;
+  entries: SpilledEntry[];
+  lastTimestamp: number;
+}
+
+const DATABASE_NAME = 'delay-recording';
+const INFO_STORE = 'info';
+const BATCH_STORE = 'batches';
+const INFO_KEY = 'current';
+
+export const isJournalSupported = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(INFO_STORE);
+    request.result.createObjectStore(BATCH_STORE, { keyPath: 'id', autoIncrement: true });
+  };
+  return requestToPromise(request);
+};
+
+// Encoded entries can only be decoded from a keyframe, so anything before the first one is dropped
+export const trimToFirstKeyFrame = (entries: SpilledEntry[]): SpilledEntry[] => {
+  const firstKey = entries.findIndex(entry => entry.type === 'key');
+  return firstKey === -1 ? [] : entries.slice(firstKey);
+};
+
+/**
+ * Write-ahead copy of the delay buffer in IndexedDB, so the last session can be
+ * recovered after a reload or a crashed tab. Entries are collected in memory and
+ * written as one batch per flush interval; batches older than `maxDuration` are
+ * deleted as new ones land.
+ */
+export class RecordingJournal {
+  private options: RecordingJournalOptions;
+  private database: IDBDatabase;
+  private pending: SpilledEntry[] = [];
+  private info: RecordingInfo | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  // Writes run one at a time, in order
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(database: IDBDatabase, options: RecordingJournalOptions) {
+    this.database = database;
+    this.options = { flushInterval: 2000, ...options };
+  }
+
+  static async open(options: RecordingJournalOptions): Promise<RecordingJournal | null> {
+    if (!isJournalSupported()) return null;
+    try {
+      return new RecordingJournal(await openDatabase(), options);
+    } catch (error) {
+      options.onError?.(error as Error);
+      return null;
+    }
+  }
+
+  // Reads back whatever the last session left behind
+  async load(): Promise<RecoveredRecording | null> {
+    const transaction = this.database.transaction([INFO_STORE, BATCH_STORE], 'readonly');
+    const [info, batches] = await Promise.all([
+      requestToPromise(transaction.objectStore(INFO_STORE).get(INFO_KEY)) as Promise<RecordingInfo | undefined>,
+      requestToPromise(transaction.objectStore(BATCH_STORE).getAll()) as Promise<JournalBatch[]>
+    ]);
+    if (!info) return null;
+
+    const entries = batches.flatMap(batch => batch.entries);
+    const playable = info.bufferMode === 'encoded' ? trimToFirstKeyFrame(entries) : entries;
+    return playable.length > 0 ? { ...info, entries: playable } : null;
+  }
+
+  // Starts journaling a new session, replacing the previous one
+  begin(info: RecordingInfo): void {
+    this.pending = [];
+    this.info = info;
+    this.enqueue(async () => {
+      const transaction = this.database.transaction([INFO_STORE, BATCH_STORE], 'readwrite');
+      transaction.objectStore(BATCH_STORE).clear();
+      transaction.objectStore(INFO_STORE).put(info, INFO_KEY);
+      await transactionDone(transaction);
+    });
+
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => this.flush(), this.options.flushInterval);
+    }
+  }
+
+  // Settings that change mid-session (frame rate, gaps, decoder config) are written with the next batch
+  updateInfo(patch: Partial<RecordingInfo>): void {
+    if (this.info) {
+      this.info = { ...this.info, ...patch };
+    }
+  }
+
+  append(entry: SpilledEntry): void {
+    if (!this.info) return;
+    this.pending.push(entry);
+  }
+
+  setMaxDuration(maxDuration: number): void {
+    this.options.maxDuration = maxDuration;
+  }
+
+  flush(): Promise<void> {
+    const info = this.info;
+    const entries = this.pending;
+    if (!info || entries.length === 0) return this.writeQueue;
+    this.pending = [];
+
+    const lastTimestamp = entries[entries.length - 1].timestamp;
+    const cutoff = lastTimestamp - this.options.maxDuration;
+    const batch: JournalBatch = { entries, lastTimestamp };
+    const updatedInfo: RecordingInfo = { ...info, recordedAt: Date.now() };
+
+    this.enqueue(async () => {
+      const transaction = this.database.transaction([INFO_STORE, BATCH_STORE], 'readwrite');
+      const batchStore = transaction.objectStore(BATCH_STORE);
+      batchStore.add(batch);
+      transaction.objectStore(INFO_STORE).put(updatedInfo, INFO_KEY);
+
+      // Batches are keyed in write order, so expired ones are at the front
+      const cursorRequest = batchStore.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const stored = cursor.value as JournalBatch;
+        if (stored.lastTimestamp < cutoff) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      await transactionDone(transaction);
+    });
+    return this.writeQueue;
+  }
+
+  // Writes what's pending and stops journaling, keeping what's stored for recovery
+  async finish(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+    this.info = null;
+  }
+
+  // Forgets the stored session
+  async clear(): Promise<void> {
+    this.pending = [];
+    this.enqueue(async () => {
+      const transaction = this.database.transaction([INFO_STORE, BATCH_STORE], 'readwrite');
+      transaction.objectStore(INFO_STORE).clear();
+      transaction.objectStore(BATCH_STORE).clear();
+      await transactionDone(transaction);
+    });
+    await this.writeQueue;
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.writeQueue = this.writeQueue
+      .then(task)
+      .catch(error => this.options.onError?.(error as Error));
+  }
+}
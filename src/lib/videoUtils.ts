@@ -1,19 +1,145 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from 'webm-muxer';
+import { reencodeChunks, type EncodedBufferCodec, type StoredChunk } from '@/lib/encodedFrameBuffer';
+import { drawTransformed, getTransformAt, getTransformedSize, isIdentityTransform, type FrameTransform, type TransformSegment } from '@/lib/frameTransform';
+import { applyCrop, getCroppedSize, isFullFrame, type CropRect } from '@/lib/cropRegion';
+import type { BufferGap } from '@/lib/bufferGaps';
+import type { AudioTrackData } from '@/lib/delayedAudio';
+import type { FrameSize } from '@/lib/frameStorage';
+
 export interface VideoSaveOptions {
-  frames: string[];
+  frames: Blob[];
+  // Capture time of each frame in milliseconds; when present, frames keep their real spacing
+  timestamps?: number[];
+  // Stretches with no frames; they keep their real length and are shown as a slate
+  gaps?: BufferGap[];
   fps: number;
   filename: string;
   codec?: 'av1' | 'hevc' | 'h264' | 'vp9' | 'auto';
   container?: 'mp4' | 'mkv' | 'webm' | 'auto';
+  // Microphone audio for the same stretch; left out when the browser can't record it
+  audio?: AudioTrackData | null;
+  // Mirroring and rotation drawn into every frame; the output is sized for it
+  transform?: FrameTransform;
+  // Transforms of the cameras the frames came from, by capture time; frames they cover are drawn with theirs
+  cameraTransforms?: TransformSegment[];
+  // Part of the transformed frame to keep; the output is sized to it
+  crop?: CropRect | null;
+  // Set to false to only get the file back in the result
+  download?: boolean;
 }
 
 export interface VideoSaveResult {
   codec: string;
   container: string;
   filename: string;
+  blob: Blob;
+  // Milliseconds from the first frame saved to the last
+  duration: number;
+}
+
+export interface EncodedVideoSaveOptions {
+  chunks: StoredChunk[];
+  decoderConfig: VideoDecoderConfig;
+  codec: EncodedBufferCodec;
+  width: number;
+  height: number;
+  fps: number;
+  filename: string;
+  container?: 'mp4' | 'mkv' | 'webm' | 'auto';
+  audio?: AudioTrackData | null;
+  // Any of these means decoding and re-encoding every frame
+  transform?: FrameTransform;
+  cameraTransforms?: TransformSegment[];
+  crop?: CropRect | null;
+  download?: boolean;
 }
 
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Draws a stored frame through its camera's transform and the crop onto a
+ * canvas of the output size, which is based on `transform`. A frame whose
+ * camera was turned the other way is fitted inside that shape.
+ */
+const drawOutputFrame = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  frameSize: FrameSize,
+  outputSize: FrameSize,
+  transform: FrameTransform | undefined,
+  crop: CropRect | null | undefined,
+  frameTransform: FrameTransform | undefined
+) => {
+  ctx.save();
+  const size = transform ? getTransformedSize(frameSize, transform) : frameSize;
+  if (crop) {
+    applyCrop(ctx, crop, size, outputSize);
+  }
+  if (frameTransform) {
+    const frameOutputSize = getTransformedSize(frameSize, frameTransform);
+    if (frameOutputSize.width !== size.width) {
+      const scale = Math.min(size.width / frameOutputSize.width, size.height / frameOutputSize.height);
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, size.width, size.height);
+      ctx.translate((size.width - frameOutputSize.width * scale) / 2, (size.height - frameOutputSize.height * scale) / 2);
+      ctx.scale(scale, scale);
+    }
+    drawTransformed(ctx, source, frameSize.width, frameSize.height, frameTransform);
+  } else {
+    ctx.drawImage(source, 0, 0, frameSize.width, frameSize.height);
+  }
+  ctx.restore();
+};
+
+// Size of exported frames once transformed and cropped
+const getOutputSize = (frameSize: FrameSize, transform: FrameTransform | undefined, crop: CropRect | null | undefined) => {
+  const size = transform ? getTransformedSize(frameSize, transform) : frameSize;
+  return crop ? getCroppedSize(size, crop) : size;
+};
+
+// Fills the frame with a marker so a gap in capture reads as a gap, not a frozen picture
+const drawGapSlate = (ctx: CanvasRenderingContext2D, width: number, height: number, duration: number) => {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#fff';
+  ctx.font = `${Math.round(height / 16)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`No video for ${Math.round(duration / 1000)}s`, width / 2, height / 2);
+};
+
+// Audio codecs to ask MediaRecorder for next to the video codec, per container
+const RECORDER_AUDIO_CODECS: Record<string, string[]> = {
+  mp4: ['mp4a.40.2', 'opus'],
+  mkv: ['opus'],
+  webm: ['opus']
+};
+
+// The recorder MIME type with an audio codec added, or null if the recorder can't take audio with it
+const withAudioCodec = (mimeType: string, container: string): string | null => {
+  const match = mimeType.match(/codecs="([^"]*)"/);
+  // Without a codec list the browser picks its default audio codec
+  if (!match) return mimeType;
+
+  for (const audioCodec of RECORDER_AUDIO_CODECS[container] ?? []) {
+    const candidate = mimeType.replace(match[0], `codecs="${match[1]},${audioCodec}"`);
+    if (MediaRecorder.isTypeSupported(candidate)) return candidate;
+  }
+  return null;
+};
+
 export const saveFramesAsVideo = async (options: VideoSaveOptions): Promise<VideoSaveResult> => {
-  const { frames, fps, filename, codec = 'auto', container = 'auto' } = options;
+  const { frames, timestamps, gaps = [], fps, filename, codec = 'auto', container = 'auto', audio, transform, cameraTransforms, crop, download = true } = options;
   
   if (frames.length === 0) {
     throw new Error('No frames to save');
@@ -28,17 +154,13 @@ export const saveFramesAsVideo = async (options: VideoSaveOptions): Promise<Vide
       throw new Error('Could not get canvas context');
     }
 
-    // Create a temporary video element to get frame dimensions
-    const tempImg = new Image();
-    tempImg.src = frames[0];
-    
-    await new Promise((resolve, reject) => {
-      tempImg.onload = resolve;
-      tempImg.onerror = reject;
-    });
-
-    canvas.width = tempImg.width;
-    canvas.height = tempImg.height;
+    // Decode the first frame to get frame dimensions
+    const firstFrame = await createImageBitmap(frames[0]);
+    const frameSize = { width: firstFrame.width, height: firstFrame.height };
+    const outputSize = getOutputSize(frameSize, transform, crop);
+    canvas.width = outputSize.width;
+    canvas.height = outputSize.height;
+    firstFrame.close();
 
     // Create MediaRecorder with selected codec and container
     const stream = canvas.captureStream(fps);
@@ -181,6 +303,22 @@ export const saveFramesAsVideo = async (options: VideoSaveOptions): Promise<Vide
       }
     }
 
+    // Audio is played into the recorded stream in real time alongside the frames
+    let audioContext: AudioContext | null = null;
+    let audioSource: AudioBufferSourceNode | null = null;
+    const audioMimeType = audio ? withAudioCodec(selectedMimeType, selectedContainer) : null;
+    if (audio && audioMimeType) {
+      audioContext = new AudioContext({ sampleRate: audio.sampleRate });
+      const buffer = audioContext.createBuffer(1, audio.samples.length, audio.sampleRate);
+      buffer.getChannelData(0).set(audio.samples);
+      const destination = audioContext.createMediaStreamDestination();
+      audioSource = audioContext.createBufferSource();
+      audioSource.buffer = buffer;
+      audioSource.connect(destination);
+      stream.addTrack(destination.stream.getAudioTracks()[0]);
+      selectedMimeType = audioMimeType;
+    }
+
     const mediaRecorder = new MediaRecorder(stream, {
       mimeType: selectedMimeType,
       videoBitsPerSecond: 5000000 // 5 Mbps for good quality
@@ -201,51 +339,57 @@ export const saveFramesAsVideo = async (options: VideoSaveOptions): Promise<Vide
 
     mediaRecorder.onstop = () => {
       const blob = new Blob(chunks, { type: selectedMimeType });
-      const url = URL.createObjectURL(blob);
       
       // Use the selected container for the file extension
       const baseFilename = filename.replace(/\.[^/.]+$/, '');
       const finalFilename = `${baseFilename}.${selectedContainer}`;
       
-      // Create download link
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = finalFilename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      
-      // Clean up
-      URL.revokeObjectURL(url);
+      if (download) {
+        downloadBlob(blob, finalFilename);
+      }
       
       // Resolve with the actual format used
       resolvePromise({
         codec: selectedCodecName,
         container: selectedContainer,
-        filename: finalFilename
+        filename: finalFilename,
+        blob,
+        duration: timestamps ? timestamps[timestamps.length - 1] - timestamps[0] : ((frames.length - 1) * 1000) / fps
       });
     };
 
     mediaRecorder.start();
 
+    if (audio && audioContext && audioSource) {
+      // Line the first sample up with the first frame's capture time
+      const offset = ((timestamps?.[0] ?? audio.timestamp) - audio.timestamp) / 1000;
+      audioSource.start(audioContext.currentTime + Math.max(0, -offset), Math.max(0, offset));
+    }
+
     // Render frames sequentially
     const frameInterval = 1000 / fps;
     for (let i = 0; i < frames.length; i++) {
-      const img = new Image();
-      img.src = frames[i];
-      
-      await new Promise((resolve, reject) => {
-        img.onload = () => {
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          ctx.drawImage(img, 0, 0);
-          resolve(null);
-        };
-        img.onerror = reject;
-      });
+      const bitmap = await createImageBitmap(frames[i]);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const frameTransform = timestamps && cameraTransforms && transform
+        ? getTransformAt(cameraTransforms, timestamps[i], transform)
+        : transform;
+      drawOutputFrame(ctx, bitmap, frameSize, outputSize, transform, crop, frameTransform);
+      bitmap.close();
 
       // Wait for frame interval
       if (i < frames.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, frameInterval));
+        const interval = timestamps ? timestamps[i + 1] - timestamps[i] : frameInterval;
+        const gap = timestamps && gaps.find(candidate => candidate.start >= timestamps[i] && candidate.end <= timestamps[i + 1]);
+        if (gap) {
+          // The last frame before the gap gets its usual time, then the slate fills the rest of the
+          // gap's real length, so the audio recorded alongside stays in sync
+          await new Promise(resolve => setTimeout(resolve, frameInterval));
+          drawGapSlate(ctx, canvas.width, canvas.height, gap.end - gap.start);
+          await new Promise(resolve => setTimeout(resolve, Math.max(0, interval - frameInterval)));
+        } else {
+          await new Promise(resolve => setTimeout(resolve, interval));
+        }
       }
     }
 
@@ -255,7 +399,9 @@ export const saveFramesAsVideo = async (options: VideoSaveOptions): Promise<Vide
     // Stop the stream
     stream.getTracks().forEach(track => track.stop());
 
-    return await savePromise;
+    const result = await savePromise;
+    await audioContext?.close();
+    return result;
 
   } catch (error) {
     console.error('Error saving video:', error);
@@ -263,6 +409,223 @@ export const saveFramesAsVideo = async (options: VideoSaveOptions): Promise<Vide
   }
 };
 
+// Codecs each container can carry; Matroska takes anything
+const CONTAINER_CODECS: Record<'mp4' | 'webm', EncodedBufferCodec[]> = {
+  mp4: ['h264', 'hevc', 'vp9', 'av1'],
+  webm: ['vp9', 'av1']
+};
+
+const MP4_CODEC_IDS: Record<EncodedBufferCodec, 'avc' | 'hevc' | 'vp9' | 'av1'> = {
+  h264: 'avc',
+  hevc: 'hevc',
+  vp9: 'vp9',
+  av1: 'av1'
+};
+
+const MATROSKA_CODEC_IDS: Record<EncodedBufferCodec, string> = {
+  h264: 'V_MPEG4/ISO/AVC',
+  hevc: 'V_MPEGH/ISO/HEVC',
+  vp9: 'V_VP9',
+  av1: 'V_AV1'
+};
+
+interface EncodedAudioTrack {
+  chunks: Array<{ chunk: EncodedAudioChunk; meta?: EncodedAudioChunkMetadata }>;
+  muxerCodec: string;
+  sampleRate: number;
+}
+
+// Encoder codec strings to try and what each muxer calls them, per container
+const AUDIO_ENCODINGS: Record<'mp4' | 'mkv' | 'webm', Array<{ codec: string; muxerCodec: string }>> = {
+  mp4: [{ codec: 'opus', muxerCodec: 'opus' }, { codec: 'mp4a.40.2', muxerCodec: 'aac' }],
+  mkv: [{ codec: 'opus', muxerCodec: 'A_OPUS' }],
+  webm: [{ codec: 'opus', muxerCodec: 'A_OPUS' }]
+};
+
+// Encodes the audio with WebCodecs; null when no encoder for the container is available
+const encodeAudioTrack = async (audio: AudioTrackData, container: 'mp4' | 'mkv' | 'webm'): Promise<EncodedAudioTrack | null> => {
+  if (typeof AudioEncoder === 'undefined') return null;
+
+  for (const { codec, muxerCodec } of AUDIO_ENCODINGS[container]) {
+    const config: AudioEncoderConfig = { codec, sampleRate: audio.sampleRate, numberOfChannels: 1, bitrate: 96000 };
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (!supported) continue;
+
+    const chunks: EncodedAudioTrack['chunks'] = [];
+    let encodeError: DOMException | null = null;
+    const encoder = new AudioEncoder({
+      output: (chunk, meta) => chunks.push({ chunk, meta }),
+      error: (error) => { encodeError = error; }
+    });
+    encoder.configure(config);
+
+    // Timestamps start at 0 and are offset against the video when muxed
+    const samplesPerData = Math.round(audio.sampleRate / 10);
+    for (let offset = 0; offset < audio.samples.length; offset += samplesPerData) {
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: audio.sampleRate,
+        numberOfChannels: 1,
+        numberOfFrames: Math.min(samplesPerData, audio.samples.length - offset),
+        timestamp: Math.round((offset / audio.sampleRate) * 1_000_000),
+        data: audio.samples.slice(offset, offset + samplesPerData)
+      });
+      encoder.encode(data);
+      data.close();
+    }
+    await encoder.flush();
+    encoder.close();
+
+    if (encodeError) {
+      console.error('Error encoding audio:', encodeError);
+      return null;
+    }
+    return { chunks, muxerCodec, sampleRate: audio.sampleRate };
+  }
+  return null;
+};
+
+interface ChunkMuxer {
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata, timestamp?: number): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata, timestamp?: number): void;
+}
+
+// Adds video and audio interleaved in timestamp order, which WebM clusters need
+const addChunksToMuxer = (
+  muxer: ChunkMuxer,
+  video: StoredChunk[],
+  meta: EncodedVideoChunkMetadata,
+  audio: EncodedAudioTrack | null,
+  audioOffset: number
+) => {
+  const firstTimestamp = video[0].chunk.timestamp;
+  const audioChunks = audio?.chunks ?? [];
+  let audioIndex = 0;
+
+  video.forEach(({ chunk }, i) => {
+    const timestamp = chunk.timestamp - firstTimestamp;
+    while (audioIndex < audioChunks.length && audioChunks[audioIndex].chunk.timestamp + audioOffset <= timestamp) {
+      const { chunk: audioChunk, meta: audioMeta } = audioChunks[audioIndex++];
+      muxer.addAudioChunk(audioChunk, audioMeta, audioChunk.timestamp + audioOffset);
+    }
+    muxer.addVideoChunk(chunk, i === 0 ? meta : undefined, timestamp);
+  });
+  audioChunks.slice(audioIndex).forEach(({ chunk, meta: audioMeta }) => {
+    muxer.addAudioChunk(chunk, audioMeta, chunk.timestamp + audioOffset);
+  });
+};
+
+export interface MuxedVideo {
+  blob: Blob;
+  container: 'mp4' | 'mkv' | 'webm';
+}
+
+// Re-encodes the chunks with the transform and crop drawn in; without either they're returned untouched
+const applyTransform = async (
+  options: Omit<EncodedVideoSaveOptions, 'filename' | 'download'>
+): Promise<Pick<EncodedVideoSaveOptions, 'chunks' | 'decoderConfig' | 'width' | 'height'>> => {
+  const { chunks, decoderConfig, codec, width, height, fps, cameraTransforms = [] } = options;
+  const transform = options.transform && !isIdentityTransform(options.transform) ? options.transform : undefined;
+  const crop = options.crop && !isFullFrame(options.crop) ? options.crop : undefined;
+  const hasCameraTransforms = cameraTransforms.some(segment => !isIdentityTransform(segment.transform));
+  if (!transform && !crop && !hasCameraTransforms) {
+    return { chunks, decoderConfig, width, height };
+  }
+
+  const frameSize = { width, height };
+  const size = getOutputSize(frameSize, transform, crop);
+  const reencoded = await reencodeChunks({
+    chunks,
+    decoderConfig,
+    codec,
+    width: size.width,
+    height: size.height,
+    frameRate: fps,
+    draw: (ctx, frame) => {
+      // VideoFrame timestamps are in microseconds
+      const frameTransform = options.transform && getTransformAt(cameraTransforms, frame.timestamp / 1000, options.transform);
+      drawOutputFrame(ctx, frame, frameSize, size, transform, crop, frameTransform);
+    }
+  });
+  return { ...reencoded, ...size };
+};
+
+// Writes encoded chunks into a container, only decoding and re-encoding them when a transform needs it
+export const muxEncodedChunks = async (options: Omit<EncodedVideoSaveOptions, 'filename' | 'download'>): Promise<MuxedVideo> => {
+  const { codec, fps, container = 'auto', audio } = options;
+
+  if (options.chunks.length === 0) {
+    throw new Error('No frames to save');
+  }
+  const { chunks, decoderConfig, width, height } = await applyTransform(options);
+
+  // Keep the requested container when it can hold the buffer's codec, otherwise fall back
+  let selectedContainer: 'mp4' | 'mkv' | 'webm' = container === 'auto' ? 'mp4' : container;
+  if (selectedContainer !== 'mkv' && !CONTAINER_CODECS[selectedContainer].includes(codec)) {
+    selectedContainer = CONTAINER_CODECS.mp4.includes(codec) ? 'mp4' : 'mkv';
+  }
+
+  // Chunks keep their capture timestamps, so gaps in capture keep their real length, as in saveFramesAsVideo
+  const firstTimestamp = chunks[0].chunk.timestamp;
+  const meta: EncodedVideoChunkMetadata = { decoderConfig };
+  const audioTrack = audio ? await encodeAudioTrack(audio, selectedContainer) : null;
+  // Audio capture times are in milliseconds, chunk timestamps in microseconds
+  const audioOffset = audio ? Math.max(0, Math.round(audio.timestamp * 1000) - firstTimestamp) : 0;
+  let blob: Blob;
+
+  if (selectedContainer === 'mp4') {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: MP4_CODEC_IDS[codec], width, height, frameRate: fps },
+      audio: audioTrack
+        ? { codec: audioTrack.muxerCodec as 'aac' | 'opus', numberOfChannels: 1, sampleRate: audioTrack.sampleRate }
+        : undefined,
+      fastStart: 'in-memory',
+      // Audio can start a little after the first frame
+      firstTimestampBehavior: 'cross-track-offset'
+    });
+    addChunksToMuxer(muxer, chunks, meta, audioTrack, audioOffset);
+    muxer.finalize();
+    blob = new Blob([muxer.target.buffer], { type: 'video/mp4' });
+  } else {
+    const muxer = new WebMMuxer({
+      target: new WebMTarget(),
+      type: selectedContainer === 'mkv' ? 'matroska' : 'webm',
+      video: { codec: MATROSKA_CODEC_IDS[codec], width, height, frameRate: fps },
+      audio: audioTrack
+        ? { codec: audioTrack.muxerCodec, numberOfChannels: 1, sampleRate: audioTrack.sampleRate }
+        : undefined,
+      firstTimestampBehavior: 'permissive'
+    });
+    addChunksToMuxer(muxer, chunks, meta, audioTrack, audioOffset);
+    muxer.finalize();
+    blob = new Blob([muxer.target.buffer], {
+      type: selectedContainer === 'mkv' ? 'video/x-matroska' : 'video/webm'
+    });
+  }
+
+  return { blob, container: selectedContainer };
+};
+
+export const saveEncodedChunksAsVideo = async (options: EncodedVideoSaveOptions): Promise<VideoSaveResult> => {
+  const { blob, container } = await muxEncodedChunks(options);
+
+  const baseFilename = options.filename.replace(/\.[^/.]+$/, '');
+  const finalFilename = `${baseFilename}.${container}`;
+  if (options.download ?? true) {
+    downloadBlob(blob, finalFilename);
+  }
+
+  const { chunks } = options;
+  return {
+    codec: options.codec,
+    container,
+    filename: finalFilename,
+    blob,
+    duration: chunks[chunks.length - 1].timestamp - chunks[0].timestamp
+  };
+};
+
 export const getResolvedFormat = (codec: string = 'auto', container: string = 'auto'): { codec: string; container: string; displayName: string } => {
   // Define codec priority order: AV1 > HEVC > H.264 > VP9
   const codecPriority = ['av1', 'hevc', 'h264', 'vp9'];
@@ -0,0 +1,46 @@
+import type { AudioCaptureMessage } from '@/lib/delayedAudio';
+
+// Globals of the AudioWorkletGlobalScope, which the DOM lib doesn't describe
+declare const currentTime: number;
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+// Samples per message; posting every 128-sample render quantum would flood the main thread
+const BATCH_SIZE = 4096;
+
+// Mixes the microphone down to mono and posts it in batches stamped with the audio clock
+class AudioCaptureProcessor extends AudioWorkletProcessor {
+  private batch = new Float32Array(BATCH_SIZE);
+  private filled = 0;
+  private batchStartTime = 0;
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    const frameCount = channels[0].length;
+    for (let i = 0; i < frameCount; i++) {
+      if (this.filled === 0) {
+        this.batchStartTime = currentTime + i / sampleRate;
+      }
+      let sum = 0;
+      for (const channel of channels) {
+        sum += channel[i];
+      }
+      this.batch[this.filled++] = sum / channels.length;
+
+      if (this.filled === BATCH_SIZE) {
+        const message: AudioCaptureMessage = { samples: this.batch, contextTime: this.batchStartTime };
+        this.port.postMessage(message, [this.batch.buffer]);
+        this.batch = new Float32Array(BATCH_SIZE);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('audio-capture', AudioCaptureProcessor);
@@ -0,0 +1,30 @@
+import type { CaptureWorkerRequest, CaptureWorkerResponse } from '@/lib/frameCapture';
+
+// Reused across frames; only resized when the incoming frame size changes
+let canvas: OffscreenCanvas | null = null;
+
+const respond = (response: CaptureWorkerResponse) => {
+  self.postMessage(response);
+};
+
+self.onmessage = async (event: MessageEvent<CaptureWorkerRequest>) => {
+  const { bitmap, timestamp, type, quality } = event.data;
+
+  try {
+    if (!canvas) {
+      canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    } else if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+    }
+
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(bitmap, 0, 0);
+    const blob = await canvas.convertToBlob({ type, quality });
+    respond({ type: 'frame', blob, timestamp });
+  } catch (error) {
+    respond({ type: 'error', timestamp, message: String(error) });
+  } finally {
+    bitmap.close();
+  }
+};